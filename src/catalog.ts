@@ -0,0 +1,229 @@
+import 'cross-fetch/polyfill';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { SaxesParser, SaxesTagNS } from 'saxes';
+import { Resource, ResourceLoader, makeResourceLoader } from 'salve-annos';
+
+const CATALOG_NS = 'urn:oasis:names:tc:entity:xmlns:xml:catalog';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+export interface CatalogEntries {
+  // Exact matches
+  uri: Map<string, string>;
+  system: Map<string, string>;
+  // Prefix rewrites, as [start string, rewrite prefix]
+  rewriteURI: [string, string][];
+  rewriteSystem: [string, string][];
+  nextCatalogs: string[];
+}
+
+function longestRewrite(rewrites: [string, string][], id: string): string | undefined {
+  let match: [string, string] | undefined;
+  for (const rewrite of rewrites) {
+    if (id.startsWith(rewrite[0]) && (!match || rewrite[0].length > match[0].length)) {
+      match = rewrite;
+    }
+  }
+  if (match) {
+    return match[1] + id.slice(match[0].length);
+  }
+}
+
+async function readCatalogText(catalogURL: string): Promise<string> {
+  if (catalogURL.startsWith('file:')) {
+    return fs.readFile(fileURLToPath(catalogURL), 'utf8');
+  }
+  const response = await fetch(catalogURL);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+function logUnreadable(catalogURL: string, err: Error): void {
+  console.log("Could not read XML catalog", catalogURL, err.message);
+}
+
+/**
+ * OASIS XML Catalog (https://www.oasis-open.org/committees/entity/spec.html)
+ * supporting the uri, rewriteURI, system, rewriteSystem and nextCatalog
+ * entries, used to map schema locations to local copies.
+ */
+export class XMLCatalog {
+  private readonly catalogs: CatalogEntries[];
+
+  private constructor(catalogs: CatalogEntries[]) {
+    this.catalogs = catalogs;
+  }
+
+  /**
+   * Loads catalog files and the catalogs they chain to with nextCatalog.
+   * Catalogs that cannot be read are reported to onError and skipped.
+   */
+  static async load(catalogURLs: string[],
+    onError: (catalogURL: string, err: Error) => void = logUnreadable): Promise<XMLCatalog> {
+    const catalogs: CatalogEntries[] = [];
+    const seen = new Set<string>();
+    const queue = [...catalogURLs];
+    while (queue.length > 0) {
+      const catalogURL = queue.shift() as string;
+      if (seen.has(catalogURL)) {
+        continue;
+      }
+      seen.add(catalogURL);
+      try {
+        const entries = XMLCatalog.parseEntries(await readCatalogText(catalogURL), catalogURL);
+        catalogs.push(entries);
+        queue.push(...entries.nextCatalogs);
+      } catch(err) {
+        onError(catalogURL, err as Error);
+      }
+    }
+    return new XMLCatalog(catalogs);
+  }
+
+  /** Rebuilds a catalog from its entries, e.g. in a worker. */
+  static fromEntries(catalogs: CatalogEntries[]): XMLCatalog {
+    return new XMLCatalog(catalogs);
+  }
+
+  static parse(catalogText: string, catalogURL: string): XMLCatalog {
+    return new XMLCatalog([XMLCatalog.parseEntries(catalogText, catalogURL)]);
+  }
+
+  private static parseEntries(catalogText: string, catalogURL: string): CatalogEntries {
+    const entries: CatalogEntries = {
+      uri: new Map(),
+      system: new Map(),
+      rewriteURI: [],
+      rewriteSystem: [],
+      nextCatalogs: [],
+    };
+    const parser = new SaxesParser({ xmlns: true });
+    // xml:base in effect for each open element
+    const bases: string[] = [catalogURL];
+
+    parser.on('opentag', (node: SaxesTagNS) => {
+      const parentBase = bases[bases.length - 1];
+      const xmlBase = Object.values(node.attributes).find(a => a.uri === XML_NS && a.local === 'base');
+      const base = xmlBase ? new URL(xmlBase.value, parentBase).toString() : parentBase;
+      bases.push(base);
+      if (node.uri !== CATALOG_NS) {
+        return;
+      }
+      const att = (name: string): string | undefined => node.attributes[name]?.value;
+      const resolve = (target: string | undefined) => target === undefined ? undefined : new URL(target, base).toString();
+      switch (node.local) {
+        case 'uri': {
+          const name = att('name');
+          const target = resolve(att('uri'));
+          if (name && target) {
+            entries.uri.set(name, target);
+          }
+          break;
+        }
+        case 'system': {
+          const systemId = att('systemId');
+          const target = resolve(att('uri'));
+          if (systemId && target) {
+            entries.system.set(systemId, target);
+          }
+          break;
+        }
+        case 'rewriteURI': {
+          const start = att('uriStartString');
+          const prefix = resolve(att('rewritePrefix'));
+          if (start && prefix) {
+            entries.rewriteURI.push([start, prefix]);
+          }
+          break;
+        }
+        case 'rewriteSystem': {
+          const start = att('systemIdStartString');
+          const prefix = resolve(att('rewritePrefix'));
+          if (start && prefix) {
+            entries.rewriteSystem.push([start, prefix]);
+          }
+          break;
+        }
+        case 'nextCatalog': {
+          const next = resolve(att('catalog'));
+          if (next) {
+            entries.nextCatalogs.push(next);
+          }
+          break;
+        }
+        default:
+          // catalog, group and unsupported entries.
+      }
+    });
+
+    parser.on('closetag', () => {
+      bases.pop();
+    });
+
+    parser.write(catalogText).close();
+    return entries;
+  }
+
+  /** The entries of the catalogs, as plain data that can be sent to a worker. */
+  public get entries(): CatalogEntries[] {
+    return this.catalogs;
+  }
+
+  /**
+   * Maps a URI to its local copy, trying URI entries before system entries.
+   * Returns undefined when no entry matches.
+   */
+  public resolve(id: string): string | undefined {
+    for (const entries of this.catalogs) {
+      const mapped = entries.uri.get(id) ?? longestRewrite(entries.rewriteURI, id);
+      if (mapped) {
+        return mapped;
+      }
+    }
+    for (const entries of this.catalogs) {
+      const mapped = entries.system.get(id) ?? longestRewrite(entries.rewriteSystem, id);
+      if (mapped) {
+        return mapped;
+      }
+    }
+  }
+}
+
+/**
+ * Resource loader for salve that loads schemas from the locations given by
+ * the catalog, and points the include and externalRef hrefs they contain to
+ * their catalog locations. Relative hrefs are looked up in the catalog as
+ * resolved against the URL the schema was loaded with, then against its local copy.
+ */
+export class CatalogResourceLoader implements ResourceLoader {
+  private readonly catalog: XMLCatalog;
+  private readonly loader: ResourceLoader;
+
+  constructor(catalog: XMLCatalog, loader: ResourceLoader = makeResourceLoader()) {
+    this.catalog = catalog;
+    this.loader = loader;
+  }
+
+  public async load(path: URL): Promise<Resource> {
+    const mapped = new URL(this.catalog.resolve(path.toString()) ?? path.toString());
+    const resource = await this.loader.load(mapped);
+    const text = await resource.getText();
+    const hrefRe = /(<(?:[\w.-]+:)?(?:include|externalRef)\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/g;
+    const remapped = text.replace(hrefRe, (match: string, start: string, quote: string, href: string) => {
+      try {
+        const target = this.catalog.resolve(new URL(href, path).toString())
+          ?? this.catalog.resolve(new URL(href, mapped).toString());
+        return target ? `${start}${quote}${target}${quote}` : match;
+      } catch (error) {
+        // Leave hrefs that aren't URLs for salve to report.
+        return match;
+      }
+    });
+    return {
+      url: mapped,
+      getText: () => Promise.resolve(remapped),
+    };
+  }
+}
@@ -0,0 +1,318 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as url from 'url';
+import { XMLCatalog } from './catalog';
+import { DocumentValidation, Problem, resolveSchemaUrl, validate } from './validator';
+
+const USAGE = `Usage: sxml-validate [options] <file | directory | glob>...
+
+Validates XML files against the RELAX NG schema and Schematron rules
+associated with them with <?xml-model?>. Directories are searched for .xml
+files. Quote globs like "**/*.xml" to have them expanded here.
+
+Options:
+  --schema <file or URL>   RELAX NG schema (XML or compact syntax) for all files
+  --phase <phase>          Schematron phase, unless a file sets one
+  --catalog <file or URL>  XML catalog mapping schema locations, can be repeated
+  --format <format>        human (default), json or junit
+  --verbose                Log what is being done to stderr
+  -h, --help               Show this help
+
+Exits with 1 when a file has errors and with 2 when the arguments are wrong
+or a file can't be read.`;
+
+export type OutputFormat = 'human' | 'json' | 'junit';
+
+export interface FileValidation extends DocumentValidation {
+  file: string;
+}
+
+interface CliOptions {
+  patterns: string[];
+  format: OutputFormat;
+  schema?: string;
+  phase?: string;
+  catalogs: string[];
+  verbose: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions | void {
+  const options: CliOptions = {patterns: [], format: 'human', catalogs: [], verbose: false};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      if (i + 1 >= args.length) {
+        throw new UsageError(`Missing value for ${arg}`);
+      }
+      return args[++i];
+    };
+    switch (arg) {
+      case '-h':
+      case '--help':
+        return;
+      case '--schema':
+        options.schema = value();
+        break;
+      case '--phase':
+        options.phase = value();
+        break;
+      case '--catalog':
+        options.catalogs.push(value());
+        break;
+      case '--format': {
+        const format = value();
+        if (format !== 'human' && format !== 'json' && format !== 'junit') {
+          throw new UsageError(`Unknown format ${format}`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        if (arg.startsWith('-') && arg !== '-') {
+          throw new UsageError(`Unknown option ${arg}`);
+        }
+        options.patterns.push(arg);
+    }
+  }
+  if (options.patterns.length === 0) {
+    throw new UsageError("No files given");
+  }
+  return options;
+}
+
+/**
+ * Converts a glob to a regular expression matching paths with / separators.
+ * Supports *, ?, ** for any number of directories, [...] and {a,b}.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        re += '(?:.*/)?';
+      } else {
+        re += '.*';
+      }
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '[' && glob.indexOf(']', i + 2) > 0) {
+      const end = glob.indexOf(']', i + 2);
+      const negated = glob[i + 1] === '!' || glob[i + 1] === '^';
+      const chars = glob.slice(negated ? i + 2 : i + 1, end).replace(/[\\\]]/g, '\\$&');
+      re += `[${negated ? '^' : ''}${chars}]`;
+      i = end;
+    } else if (c === '{') {
+      braces++;
+      re += '(?:';
+    } else if (c === ',' && braces > 0) {
+      re += '|';
+    } else if (c === '}' && braces > 0) {
+      braces--;
+      re += ')';
+    } else {
+      re += c.replace(/[.+^$()|\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+const GLOB_CHARS = /[*?[{]/;
+
+// Files under a directory, without hidden files and node_modules.
+async function walk(dir: string, depth: number): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir || '.', {withFileTypes: true})) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+      continue;
+    }
+    const file = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory() && depth > 1) {
+      files.push(...await walk(file, depth - 1));
+    } else if (entry.isFile()) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+/** Lists the files matching a path, a directory (for its .xml files) or a glob. */
+export async function expandPattern(pattern: string): Promise<string[]> {
+  let glob = pattern.split(path.sep).join('/');
+  if (!GLOB_CHARS.test(glob)) {
+    const stat = await fs.stat(pattern).catch(() => undefined);
+    if (!stat?.isDirectory()) {
+      return [pattern];
+    }
+    glob = `${glob.replace(/\/$/, '')}/**/*.xml`;
+  }
+  // Only walk the directory before the first segment with wildcards.
+  const segments = glob.split('/');
+  const literal = segments.findIndex(s => GLOB_CHARS.test(s));
+  const base = segments.slice(0, literal).join('/');
+  const rest = segments.slice(literal);
+  const depth = rest.some(s => s.includes('**')) ? Infinity : rest.length;
+  const matcher = globToRegExp(glob);
+  const files = await walk(base, depth).catch(() => [] as string[]);
+  return files.filter(f => matcher.test(f)).sort().map(f => path.normalize(f));
+}
+
+function position(problem: Problem): string {
+  const {line, character} = problem.range.start;
+  return `${line + 1}:${character + 1}`;
+}
+
+function describe(problem: Problem): string {
+  return `${position(problem)}: ${problem.severity}: ${problem.message}${problem.source ? ` (${problem.source})` : ''}`;
+}
+
+function count(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/[<>&"]/g, c => ({'<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;'})[c] as string);
+}
+
+function formatHuman(results: FileValidation[]): string {
+  const lines = results.flatMap(r => r.problems.map(p => `${r.file}:${describe(p)}`));
+  const failed = results.filter(r => r.errorCount > 0);
+  const errors = failed.reduce((total, r) => total + r.errorCount, 0);
+  lines.push(failed.length > 0
+    ? `${failed.length} of ${count(results.length, 'file')} with errors (${count(errors, 'error')}).`
+    : `${count(results.length, 'file')} valid.`);
+  return lines.join('\n');
+}
+
+function formatJSON(results: FileValidation[]): string {
+  // Leave out the data kept for quick fixes in the editor.
+  return JSON.stringify(results.map(r => ({...r, problems: r.problems.map(({data, ...p}) => p)})), null, 2);
+}
+
+function formatJUnit(results: FileValidation[]): string {
+  const failures = results.filter(r => r.errorCount > 0).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="sxml-validate" tests="${results.length}" failures="${failures}">`,
+    `  <testsuite name="sxml-validate" tests="${results.length}" failures="${failures}">`,
+  ];
+  for (const result of results) {
+    const testcase = `<testcase classname="sxml-validate" name="${escapeXML(result.file)}"`;
+    const errors = result.problems.filter(p => p.severity === 'error');
+    const others = result.problems.filter(p => p.severity !== 'error');
+    if (result.problems.length === 0) {
+      lines.push(`    ${testcase}/>`);
+      continue;
+    }
+    lines.push(`    ${testcase}>`);
+    if (result.errorCount > 0) {
+      lines.push(`      <failure type="${result.errorType}" message="${count(result.errorCount, 'error')}">` +
+        `${escapeXML(errors.map(describe).join('\n'))}</failure>`);
+    }
+    if (others.length > 0) {
+      lines.push(`      <system-out>${escapeXML(others.map(describe).join('\n'))}</system-out>`);
+    }
+    lines.push('    </testcase>');
+  }
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n');
+}
+
+/** Formats the results of validating files for the terminal, as JSON or as a JUnit report. */
+export function formatResults(results: FileValidation[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJSON(results);
+    case 'junit':
+      return formatJUnit(results);
+    default:
+      return formatHuman(results);
+  }
+}
+
+/** Runs the CLI with the given arguments, returning the exit code. */
+export async function main(args: string[]): Promise<number> {
+  let options: CliOptions | void;
+  try {
+    options = parseArgs(args);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+  // Results go to stdout, keep the logging of the validation out of them.
+  const log = console.log;
+  console.log = options.verbose ? console.error : () => undefined;
+  try {
+    return await run(options);
+  } finally {
+    console.log = log;
+  }
+}
+
+async function run(options: CliOptions): Promise<number> {
+  let exitCode = 0;
+  const cwd = url.pathToFileURL(process.cwd() + path.sep).toString();
+  const catalog = options.catalogs.length > 0
+    ? await XMLCatalog.load(options.catalogs.map(c => resolveSchemaUrl(c, cwd)), (catalogURL, err) => {
+      console.error(`Could not read XML catalog ${catalogURL}: ${err.message}`);
+      exitCode = 2;
+    })
+    : undefined;
+  const schemaUrl = options.schema ? resolveSchemaUrl(options.schema, cwd) : undefined;
+
+  const files: string[] = [];
+  for (const pattern of options.patterns) {
+    const matches = await expandPattern(pattern);
+    if (matches.length === 0) {
+      console.error(`No files match ${pattern}`);
+      exitCode = 2;
+    }
+    files.push(...matches.filter(f => !files.includes(f)));
+  }
+
+  const results: FileValidation[] = [];
+  for (const file of files) {
+    let xmlText: string;
+    try {
+      xmlText = await fs.readFile(file, 'utf8');
+    } catch (err) {
+      console.error(`Could not read ${file}: ${(err as Error).message}`);
+      exitCode = 2;
+      continue;
+    }
+    const result = await validate(xmlText, {
+      schemaUrl,
+      baseUri: url.pathToFileURL(path.resolve(file)).toString(),
+      schematronPhase: options.phase,
+      catalog,
+    });
+    results.push({file, ...result});
+  }
+
+  process.stdout.write(`${formatResults(results, options.format)}\n`);
+  return exitCode || (results.some(r => r.errorCount > 0) ? 1 : 0);
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  }, err => {
+    console.error(`sxml-validate failed: ${(err as Error).message}`);
+    process.exitCode = 2;
+  });
+}
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { DefaultNameResolver, EventSet, Grammar } from 'salve-annos';
+import { SaxesParser } from 'saxes';
+import { namespaceNamer } from './completion';
+import { locateSchemaForText } from './extension';
+import SchemaCache from './schemaCache';
+import { SchemaErrorData, SchemaErrorName } from './validationEngine';
+import { fireXMLEvents, Span } from './xmlEvents';
+
+// Don't flood the lightbulb menu with large schemas.
+const MAX_FIXES = 15;
+
+export class SchemaDiagnostic extends vscode.Diagnostic {
+  data?: SchemaErrorData;
+}
+
+// Where the error happened: what could have been there instead, and the
+// namespaces in scope to write names with.
+interface ErrorContext {
+  possible: EventSet;
+  nameResolver: DefaultNameResolver;
+}
+
+class ReplayDone {}
+
+/**
+ * Validates the document again up to the last event that failed, to find out
+ * what would have been valid where each of the errors is. The document is
+ * replayed once for all of them.
+ */
+function errorContexts(tree: Grammar, xmlSource: string, errors: SchemaErrorData[]): Map<SchemaErrorData, ErrorContext> {
+  const contexts = new Map<SchemaErrorData, ErrorContext>();
+  const remaining = new Set(errors);
+  const nameResolver = new DefaultNameResolver();
+  const walker = tree.newWalker(nameResolver);
+  const parser = new SaxesParser({ xmlns: true, position: true });
+  // The namespaces in scope change as the replay goes on, so keep a copy.
+  const found = (data: SchemaErrorData) => {
+    contexts.set(data, {possible: walker.possible(), nameResolver: nameResolver.clone()});
+    remaining.delete(data);
+  };
+  try {
+    fireXMLEvents(parser, xmlSource, nameResolver, {
+      fireEvent: (name: string, args: string[], span: Span) => {
+        for (const data of remaining) {
+          if (name === data.event && span[0] === data.span[0] && span[1] === data.span[1]) {
+            found(data);
+          }
+        }
+        if (remaining.size === 0) {
+          throw new ReplayDone();
+        }
+        walker.fireEvent(name, args);
+      },
+      end: () => {
+        for (const data of remaining) {
+          if (data.event === 'end') {
+            found(data);
+          }
+        }
+      },
+    });
+  } catch(err) {
+    if (!(err instanceof ReplayDone)) {
+      console.log("Could not replay document for quick fixes", (err as Error).message);
+    }
+  }
+  return contexts;
+}
+
+// Names of the events of the given kind, without duplicates.
+function possibleNames(possible: EventSet, event: 'enterStartTag' | 'attributeName'): SchemaErrorName[] {
+  const names: SchemaErrorName[] = [];
+  for (const entry of possible) {
+    if ((entry.name === 'enterStartTag' || entry.name === 'attributeName') && entry.name === event) {
+      const name = entry.namePattern.toJSON();
+      if (typeof name.name === 'string' && !names.some(n => n.ns === name.ns && n.name === name.name)) {
+        names.push({ns: name.ns ?? '', name: name.name});
+      }
+    }
+  }
+  return names;
+}
+
+// Edit distance, to list the names closest to a wrong one first.
+function distance(a: string, b: string): number {
+  let previous = Array.from({length: b.length + 1}, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Offers fixes for validation errors, based on what the schema allows where
+ * the error is.
+ */
+class SalveCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+  cache: SchemaCache;
+  diagnostics: vscode.DiagnosticCollection;
+
+  constructor(cache: SchemaCache, diagnostics: vscode.DiagnosticCollection) {
+    this.cache = cache;
+    this.diagnostics = diagnostics;
+  }
+
+  public async provideCodeActions(document: vscode.TextDocument, range: vscode.Range,
+    context: vscode.CodeActionContext): Promise<vscode.CodeAction[]> {
+    // The diagnostics in the context are copies, so find the ones we made.
+    const ours = (this.diagnostics.get(document.uri) ?? []).filter(d => d instanceof SchemaDiagnostic && d.data
+      && context.diagnostics.some(c => c.range.isEqual(d.range) && c.message === d.message)) as SchemaDiagnostic[];
+    if (ours.length === 0) {
+      return [];
+    }
+    const xmlSource = document.getText();
+    const schemaInfo = locateSchemaForText(xmlSource, document.uri);
+    if (!schemaInfo || !schemaInfo.schema || !this.cache.has(schemaInfo.schema)) {
+      return [];
+    }
+    const tree = (await this.cache.get(schemaInfo.schema))?.grammar;
+    if (!tree) {
+      return [];
+    }
+    const actions: vscode.CodeAction[] = [];
+    const contexts = errorContexts(tree, xmlSource, ours.map(d => d.data as SchemaErrorData));
+    for (const diagnostic of ours) {
+      const data = diagnostic.data as SchemaErrorData;
+      const errorCtx = contexts.get(data);
+      if (errorCtx) {
+        const fixes = this.fixes(document, data, errorCtx).slice(0, MAX_FIXES);
+        fixes.forEach(fix => fix.diagnostics = [diagnostic]);
+        actions.push(...fixes);
+      }
+    }
+    return actions;
+  }
+
+  private fixes(document: vscode.TextDocument, data: SchemaErrorData, errorCtx: ErrorContext): vscode.CodeAction[] {
+    const text = document.getText();
+    const spanRange = (span: Span) => new vscode.Range(document.positionAt(span[0]), document.positionAt(span[1]));
+    const fix = (title: string, edits: [Span, string][]) => {
+      const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+      action.edit = new vscode.WorkspaceEdit();
+      for (const [span, newText] of edits) {
+        action.edit.replace(document.uri, spanRange(span), newText);
+      }
+      return action;
+    };
+    const {possible, nameResolver} = errorCtx;
+    const namer = namespaceNamer(nameResolver);
+
+    switch (data.kind) {
+      case 'tag not allowed here': {
+        const current = text.slice(data.span[0], data.span[1]);
+        const names = possibleNames(possible, 'enterStartTag')
+          .sort((a, b) => distance(current, a.name) - distance(current, b.name));
+        return names.map(name => {
+          const {qname, xmlns} = namer.element(name.ns, name.name);
+          const edits: [Span, string][] = [[data.span, qname + xmlns]];
+          if (data.endNameSpan) {
+            edits.push([data.endNameSpan, qname]);
+          }
+          return fix(`Change to <${qname}>`, edits);
+        });
+      }
+      case 'text not allowed here': {
+        const content = text.slice(data.span[0], data.span[1]);
+        return possibleNames(possible, 'enterStartTag').map(name => {
+          const {qname, xmlns} = namer.element(name.ns, name.name);
+          return fix(`Wrap text in <${qname}>`, [[data.span, `<${qname}${xmlns}>${content}</${qname}>`]]);
+        });
+      }
+      case 'tag required': {
+        // Self-closing elements would need an end tag first.
+        if (data.event !== 'endTag' || !text.startsWith('</', data.span[0])) {
+          return [];
+        }
+        return data.names.map(name => {
+          const {qname, xmlns} = namer.element(name.ns, name.name);
+          return fix(`Insert <${qname}>`, [[[data.span[0], data.span[0]], `<${qname}${xmlns}></${qname}>`]]);
+        });
+      }
+      case 'attribute not allowed here': {
+        // Remove the whole attribute, and the space before it.
+        const attribute = text.slice(data.span[0]).match(/^[^\s=]+\s*=\s*("[^"]*"|'[^']*')/);
+        if (!attribute) {
+          return [];
+        }
+        let start = data.span[0];
+        while (/\s/.test(text[start - 1])) {
+          start--;
+        }
+        const qname = text.slice(data.span[0], data.span[1]);
+        return [fix(`Remove attribute ${qname}`, [[[start, data.span[0] + attribute[0].length], '']])];
+      }
+      case 'invalid attribute value': {
+        const values: string[] = [];
+        for (const entry of possible) {
+          if (entry.name === 'attributeValue' && typeof entry.value === 'string' && !values.includes(entry.value)) {
+            values.push(entry.value);
+          }
+        }
+        return values.map(value => fix(`Change value to "${value}"`, [[data.span, escapeAttribute(value)]]));
+      }
+      case 'attribute missing': {
+        return data.names.map(name => {
+          // Each fix is applied on its own, so declares its namespace itself.
+          const {qname, xmlns} = namer.nested().attribute(name.ns, name.name);
+          return fix(`Add attribute ${qname}`, [[[data.span[0], data.span[0]], ` ${xmlns}${qname}=""`]]);
+        });
+      }
+    }
+    return [];
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+export default SalveCodeActionProvider;
@@ -1,19 +1,25 @@
 import 'cross-fetch/polyfill';
 import * as vscode from 'vscode';
-import {DefaultNameResolver, EnterStartTagEvent} from 'salve-annos';
-import { StoredGrammar, GrammarStore, grammarFromSource, locateSchema } from './extension';
+import {BaseName, DefaultNameResolver, EnterStartTagEvent} from 'salve-annos';
+import { locateSchema } from './extension';
+import SchemaCache from './schemaCache';
 import { SaxesParser, SaxesTag, SaxesAttributeNS, SaxesStartTagNS } from "saxes";
-import { Ref, Grammar } from 'salve-annos/lib/salve/patterns';
+import { Ref, Grammar, Element, Name } from 'salve-annos/lib/salve/patterns';
+import * as path from 'path';
+import { attributeData, elementsByName, requiredContent } from './contentModel';
+import { xmlIds } from './ids';
 
 // Constants
 const TAG = 'TAG';
 const ATT = 'ATT';
 const VAL = 'VAL';
+// Files to look for xml:ids in, besides the current one.
+const MAX_ID_FILES = 200;
 
 class SalveCompletionProvider implements vscode.CompletionItemProvider {
-  store: GrammarStore;
-  constructor(store: GrammarStore) {
-    this.store = store;
+  cache: SchemaCache;
+  constructor(cache: SchemaCache) {
+    this.cache = cache;
   }
   public provideCompletionItems(
     document: vscode.TextDocument, position: vscode.Position,
@@ -26,8 +32,13 @@ class SalveCompletionProvider implements vscode.CompletionItemProvider {
 
       let request = TAG;
 
+      // Inside an attribute value, possibly after other values.
+      const inValue = lineUntil.match(/="[^"]*$/);
+
       if (context.triggerCharacter === ' ') {
-        if (textUntil.match(/<[^>]+$/)) {
+        if (inValue) {
+          request = VAL;
+        } else if (textUntil.match(/<[^>]+$/)) {
           request = ATT;
         } else {
           // abort
@@ -40,8 +51,15 @@ class SalveCompletionProvider implements vscode.CompletionItemProvider {
           // abort
           return new Promise(() => {});
         }
+      } else if (context.triggerCharacter === '#') {
+        if (inValue) {
+          request = VAL;
+        } else {
+          // abort
+          return new Promise(() => {});
+        }
       } else if (context.triggerKind === 0) {
-        if (lineUntil.match(/="\s*$/)) {
+        if (inValue) {
           request = VAL;
         } else if (textUntil.match(/<[^>]+$/)) {
           request = ATT;
@@ -51,18 +69,16 @@ class SalveCompletionProvider implements vscode.CompletionItemProvider {
         }
       }
       
-      const schemaData = locateSchema();
+      const schemaData = locateSchema(document);
       if (schemaData) {
         const {schema, fileText, xmlURI} = schemaData;
-        const _xmlURI = xmlURI.toString();
-        let storedGrammar: StoredGrammar;
-        if (!this.store[_xmlURI]) {
+        if (!schema || !this.cache.has(schema)) {
           // Don't attempt to perform completions before validation.
           return new Promise(() => {});
-        } else {
-          storedGrammar = this.store[_xmlURI];
         }
-        return getCompletions(storedGrammar, schema, fileText, position, offset, request);
+        return this.cache.get(schema).then(storedGrammar => {
+          return getCompletions(storedGrammar?.grammar, fileText, position, offset, request, xmlURI);
+        });
       } else {
         return new Promise(() => {});
       }
@@ -73,15 +89,198 @@ function truncate(str: string, n: number){
   return (str.length > n) ? str.substr(0, n-1) + '…' : str;
 }
 
-async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, xmlSource: string,
-  position: vscode.Position, offset: number, request: string):
-  Promise<Array<vscode.CompletionItem>> {
-  let tree: Grammar;
-  if (storedGrammar) {
-    tree = storedGrammar.grammar as Grammar;
-  } else {
-    tree = await grammarFromSource(rngSource) as Grammar;
+// A name as it should be written where it's inserted, with the namespace
+// declaration it needs, if any.
+export interface QualifiedName {
+  qname: string;
+  xmlns: string;
+}
+
+// Writes names using the namespaces in scope. Namespaces the namer declares
+// for attributes are declared once, and then written with the same prefix.
+interface Namer {
+  element(ns: string, name: string): QualifiedName;
+  attribute(ns: string, name: string): QualifiedName;
+  // A namer for content inserted within what this one wrote, or for another
+  // insertion at the same place: it declares what this one didn't yet.
+  nested(): Namer;
+}
+
+export function namespaceNamer(nameResolver: DefaultNameResolver, declared = new Map<string, string>()): Namer {
+  return {
+    element(ns: string, name: string): QualifiedName {
+      // Names in no namespace can't be written while a default namespace is in scope.
+      if (ns === '' && nameResolver.resolveName(name)?.ns) {
+        return {qname: name, xmlns: ' xmlns=""'};
+      }
+      const qname = nameResolver.unresolveName(ns, name);
+      if (qname !== undefined) {
+        return {qname, xmlns: ''};
+      }
+      // Elements from another namespace, like MathML or SVG, bring their own.
+      return {qname: name, xmlns: ` xmlns="${ns}"`};
+    },
+    attribute(ns: string, name: string): QualifiedName {
+      if (ns === '') {
+        return {qname: name, xmlns: ''};
+      }
+      const prefix = nameResolver.prefixFromURI(ns) || declared.get(ns);
+      if (prefix) {
+        return {qname: `${prefix}:${name}`, xmlns: ''};
+      }
+      // Attributes need a prefix: declare one that isn't in use.
+      const taken = new Set(declared.values());
+      let count = 1;
+      while (taken.has(`ns${count}`) || nameResolver.resolveName(`ns${count}:${name}`, true) !== undefined) {
+        count++;
+      }
+      declared.set(ns, `ns${count}`);
+      return {qname: `ns${count}:${name}`, xmlns: `xmlns:ns${count}="${ns}" `};
+    },
+    nested(): Namer {
+      return namespaceNamer(nameResolver, new Map(declared));
+    },
+  };
+}
+
+/**
+ * Appends an element with its required attributes and, down to depth, its
+ * required children to a snippet, starting after "<".
+ * Returns the next tabstop number.
+ */
+function appendRequiredContent(snippet: vscode.SnippetString, element: Element, name: QualifiedName,
+  depth: number, namer: Namer, indent: string, tabstop: number): number {
+  const content = requiredContent(element);
+  const {qname} = name;
+  snippet.appendText(`${qname}${name.xmlns}`);
+  for (const att of content.attributes) {
+    const attName = namer.attribute(att.name.ns, att.name.name);
+    snippet.appendText(` ${attName.xmlns}${attName.qname}="`);
+    if (att.values.length > 1) {
+      snippet.appendChoice(att.values, tabstop++);
+    } else {
+      snippet.appendPlaceholder(att.values[0] ?? '', tabstop++);
+    }
+    snippet.appendText('"');
+  }
+  snippet.appendText('>');
+  const children = depth > 0 ? content.children : [];
+  if (children.length === 0) {
+    snippet.appendTabstop(tabstop++);
+  }
+  // Children of the same namespace are written like their parent.
+  const elementNs = (element.name as Name).ns;
+  const childName = (child: Name): QualifiedName => child.ns === elementNs
+    ? {qname: qname.replace(/[^:]+$/, child.name), xmlns: ''}
+    : namer.element(child.ns, child.name);
+  for (const child of children) {
+    snippet.appendText(`\n${indent}\t<`);
+    if (child instanceof Array) {
+      // Let the user pick, and mirror the choice in the end tag.
+      const choice = tabstop++;
+      snippet.appendChoice(child.map(el => childName(el.name as Name).qname), choice);
+      snippet.appendText('>');
+      snippet.appendTabstop(tabstop++);
+      snippet.appendText('</');
+      snippet.appendTabstop(choice);
+      snippet.appendText('>');
+    } else {
+      tabstop = appendRequiredContent(snippet, child, childName(child.name as Name), depth - 1, namer.nested(), `${indent}\t`, tabstop);
+    }
+  }
+  if (children.length > 0) {
+    snippet.appendText(`\n${indent}`);
+  }
+  snippet.appendText(`</${qname}>`);
+  return tabstop;
+}
+
+// Today, for date and time placeholders.
+function now(): {date: string[], time: string[]} {
+  const iso = new Date().toISOString();
+  return {date: iso.slice(0, 10).split('-'), time: iso.slice(11, 19).split(':')};
+}
+
+/**
+ * Lists xml:ids to point at: those of the document, and those of the files
+ * matching sxml.idFiles, relative to the document.
+ */
+async function pointerTargets(xmlSource: string, xmlURI: vscode.Uri): Promise<{target: string, element: string}[]> {
+  const targets = xmlIds(xmlSource).map(({id, element}) => ({target: id, element}));
+  const pattern = vscode.workspace.getConfiguration("sxml").get("idFiles") as string;
+  if (pattern) {
+    const files = await vscode.workspace.findFiles(pattern, undefined, MAX_ID_FILES);
+    for (const file of files) {
+      if (file.toString() === xmlURI.toString()) {
+        continue;
+      }
+      try {
+        const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+        const relative = path.posix.relative(path.posix.dirname(xmlURI.path), file.path);
+        for (const {id, element} of xmlIds(text)) {
+          targets.push({target: `${relative}#${id}`, element});
+        }
+      } catch(err) {
+        console.log(`Could not read ${file.toString()} for xml:ids`, (err as Error).message);
+      }
+    }
+  }
+  return targets;
+}
+
+/**
+ * Suggests values for datatypes, since the schema doesn't list them: xml:ids
+ * for references and pointers, and placeholders for booleans, dates and times.
+ */
+async function datatypeCompletions(types: Set<string>, xmlSource: string, xmlURI: vscode.Uri,
+  range: vscode.Range): Promise<vscode.CompletionItem[]> {
+  const items: vscode.CompletionItem[] = [];
+  const add = (label: string, insertText: string | vscode.SnippetString, detail: string, kind: vscode.CompletionItemKind) => {
+    const ci = new vscode.CompletionItem(label, kind);
+    ci.insertText = insertText;
+    ci.detail = detail;
+    ci.range = range;
+    items.push(ci);
+  };
+  if (types.has('anyURI') || types.has('IDREF') || types.has('IDREFS')) {
+    // Pointers need a fragment identifier, references just the id.
+    const hash = types.has('anyURI') ? '#' : '';
+    for (const {target, element} of await pointerTargets(xmlSource, xmlURI)) {
+      const value = target.includes('#') ? target : `${hash}${target}`;
+      add(value, value, `<${element}>`, vscode.CompletionItemKind.Reference);
+    }
   }
+  if (types.has('boolean')) {
+    add('true', 'true', 'boolean', vscode.CompletionItemKind.Value);
+    add('false', 'false', 'boolean', vscode.CompletionItemKind.Value);
+  }
+  const {date, time} = now();
+  if (types.has('date')) {
+    add(date.join('-'), new vscode.SnippetString(`\${1:${date[0]}}-\${2:${date[1]}}-\${3:${date[2]}}`),
+      'date (YYYY-MM-DD)', vscode.CompletionItemKind.Value);
+  }
+  if (types.has('dateTime')) {
+    add(`${date.join('-')}T${time.join(':')}`, new vscode.SnippetString(
+      `\${1:${date[0]}}-\${2:${date[1]}}-\${3:${date[2]}}T\${4:${time[0]}}:\${5:${time[1]}}:\${6:${time[2]}}`),
+      'dateTime (YYYY-MM-DDThh:mm:ss)', vscode.CompletionItemKind.Value);
+  }
+  if (types.has('time')) {
+    add(time.join(':'), new vscode.SnippetString(`\${1:${time[0]}}:\${2:${time[1]}}:\${3:${time[2]}}`),
+      'time (hh:mm:ss)', vscode.CompletionItemKind.Value);
+  }
+  if (types.has('gYear')) {
+    add(date[0], date[0], 'year (YYYY)', vscode.CompletionItemKind.Value);
+  }
+  if (types.has('gYearMonth')) {
+    add(`${date[0]}-${date[1]}`, new vscode.SnippetString(`\${1:${date[0]}}-\${2:${date[1]}}`),
+      'year and month (YYYY-MM)', vscode.CompletionItemKind.Value);
+  }
+  return items;
+}
+
+export async function getCompletions(tree: Grammar | void, xmlSource: string,
+  position: vscode.Position, offset: number, request: string, xmlURI: vscode.Uri):
+  Promise<Array<vscode.CompletionItem>> {
   if (!tree) {
     return [];
   }
@@ -95,7 +294,15 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
   }
 
   const items: Array<vscode.CompletionItem> = [];
+  // -1 inserts just the element.
+  const config = vscode.workspace.getConfiguration("sxml");
+  const requiredContentDepth = config.get("insertRequiredContent") ? config.get("requiredContentDepth") as number : -1;
+  let elementMap: Map<BaseName, Element> | undefined;
+  const elements = () => elementMap ?? (elementMap = elementsByName(tree));
   const elementStack: Array<SaxesTag> = [];
+  // Whether each open element declares namespaces.
+  const contextStack: boolean[] = [];
+  const namer = namespaceNamer(nameResolver);
   let sawRoot: Boolean = false;
 
   const showElementSuggestion = (node: SaxesTag) => {
@@ -126,35 +333,27 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
       els.forEach(entry => {
         if (entry.name === 'enterStartTag') {
           const tag = entry.namePattern.toJSON();
-          let prefix = '';
-          let xmlns = '';
-          let diffNs = '';
-          if (tag.ns) {
-            const ns = nsDefinitions.filter(ns => ns.value === tag.ns)[0];            
-            if (ns) {
-              // Only show ns if different from parent.
-              if (tag.ns !== node.uri) {
-                diffNs = ` ${tag.ns}`;
-                prefix = `${ns.prefix}:`;
-              }
-            } else {
-              nsDefinitions.push({
-                prefix: '', 
-                value: tag.ns,
-                generated: true});
-              diffNs = ` ${tag.ns}`;
-              xmlns = ` xmlns="${tag.ns}"`;
-            }
+          const name = namer.element(tag.ns ?? '', tag.name);
+          // Only show ns if different from parent.
+          const parentNs = node ? node.uri : '';
+          const diffNs = tag.ns && tag.ns !== parentNs ? ` ${tag.ns}` : '';
+          const ci = new vscode.CompletionItem(`${name.qname}${diffNs}`, 24);
+          ci.filterText = name.qname;
+          const element = requiredContentDepth >= 0 ? elements().get(entry.namePattern) : undefined;
+          if (element) {
+            const snippet = new vscode.SnippetString();
+            appendRequiredContent(snippet, element, name, requiredContentDepth, namer.nested(), '', 1);
+            ci.insertText = snippet;
+          } else {
+            ci.insertText = `${name.qname}${name.xmlns}></${name.qname}>`;
+            ci.command = {
+              arguments: [0, -(name.qname.length + 3)],
+              command: 'sxml.translateCursor',
+              title: 'Place cursor between tags',
+            };
           }
-          const ci = new vscode.CompletionItem(`${prefix}${tag.name}${diffNs}`, 24);
-          ci.insertText = `${prefix}${tag.name}${xmlns}></${prefix}${tag.name}>`;
           ci.detail = truncate(tag.documentation, 20);
           ci.documentation = tag.documentation;
-          ci.command = {
-            arguments: [0, -(`${prefix}${tag.name}`.length + 3)],
-            command: 'sxml.translateCursor',
-            title: 'Place cursor between tags',
-          };
           items.push(ci);
         }
       });
@@ -166,36 +365,14 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
     for (const entry of possibilities) {
       if (entry[0].name === 'attributeName') {
         const att = entry[0].namePattern.toJSON();
-        if (Object.keys(excluded).filter(e => e === att.name).length === 0) {
-          let prefix = '';
-          let newNs = '';
-          let xmlns = '';
-          if (att.ns) {
-            const ns = nsDefinitions.filter(ns => ns.value === att.ns)[0];
-            if (ns) {
-              if (ns.generated) {
-                xmlns = `xmlns:${ns.prefix}="${att.ns}" `;
-                prefix = `${ns.prefix}:`;
-                newNs = ` ${att.ns}`;
-              } else {
-                prefix = `${ns.prefix}:`;
-              }
-            } else if (att.ns === "http://www.w3.org/XML/1998/namespace") {
-              prefix = `xml:`;
-            } else {
-              nsDefinitions.push({
-                prefix: `ns${nsCount}`, 
-                value: att.ns,
-                generated: true});
-              xmlns = `xmlns:ns${nsCount}="${att.ns}" `;
-              prefix = `ns${nsCount}:`;
-              newNs = ` ${att.ns}`;
-              nsCount++;
-            }
-          }
-          const ci = new vscode.CompletionItem(`$(mention)${prefix}${att.name}${newNs}`, 24);
-          ci.filterText = `${prefix}${att.name}`;
-          ci.insertText = `${xmlns}${prefix}${att.name}=""`;
+        // Each suggestion is inserted on its own, so declares its namespace itself.
+        const {qname, xmlns} = namer.nested().attribute(att.ns ?? '', att.name);
+        const written = Object.values(excluded).some(e => typeof e !== 'string' && e.uri === (att.ns ?? '') && e.local === att.name);
+        if (!written) {
+          const newNs = xmlns ? ` ${att.ns}` : '';
+          const ci = new vscode.CompletionItem(`$(mention)${qname}${newNs}`, 24);
+          ci.filterText = qname;
+          ci.insertText = `${xmlns}${qname}=""`;
           ci.detail = truncate(att.documentation, 20);
           ci.documentation = att.documentation;
           ci.command = {command: 'sxml.suggestAttValue', title: 'Suggest Attribute Value'};
@@ -205,13 +382,29 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
     }
   };
 
-  const showValSuggestion = () => {
+  const valueTypes = new Set<string>();
+  const showValSuggestion = (node: SaxesTag, att?: SaxesAttributeNS) => {
     const possibilities = walker.possible().entries();
     for (const entry of possibilities) {
       if (entry[0].name === 'attributeValue') {
         const attValue = entry[0];
-        // Exclude RNG-derived regex patterns
+        // RNG-derived regex patterns can't be listed, but some datatypes can be helped with.
         if (attValue.value instanceof RegExp) {
+          // Datatypes share patterns, so find which ones the attribute has in the schema.
+          if (att) {
+            for (const definitions of Object.values(tree.elementDefinitions)) {
+              for (const element of definitions) {
+                if (!element.name.match(node.uri as string, node.local as string)) {
+                  continue;
+                }
+                for (const data of attributeData(element, att.uri, att.local)) {
+                  if (data.datatype.regexp === attValue.value) {
+                    valueTypes.add(data.type);
+                  }
+                }
+              }
+            }
+          }
           continue;
         }
         const ci = new vscode.CompletionItem(attValue.value.toString(), 24);
@@ -226,18 +419,6 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
   const attStack: SaxesAttributeNS[] = [];  
   let tagFound = false;
 
-  // Keep track of namespaces
-  // TODO: this should probably be done just once,
-  // not at every suggestion. But how?
-  type NSDef = {
-    prefix: string;
-    value: string;
-    generated: boolean;
-  };
-
-  const nsDefinitions: NSDef[] = [];
-  let nsCount = 1;
-
   try {
     // NB: handlers are listed in processing order
 
@@ -278,24 +459,16 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
     });
 
     parser.on('opentag', (node: SaxesTag) => {
-      // store namespaces
-      const names = Object.keys(node.attributes);
-      names.sort();
-      for (const name of names) {
-        const attr = node.attributes[name] as SaxesAttributeNS;
-        if (name === "xmlns") { // xmlns="..."
-          nsDefinitions.push({
-            prefix: "", 
-            value: attr.value,
-            generated: false});
-        }
-        else if (attr.prefix === "xmlns") { // xmlns:...=...
-          nsDefinitions.push({
-            prefix: attr.local, 
-            value: attr.value,
-            generated: false});
+      // Namespaces declared on the element are in scope for its own name and attributes.
+      const nsDefinitions = Object.values(node.attributes as Record<string, SaxesAttributeNS>)
+        .filter(attr => attr.name === "xmlns" || attr.prefix === "xmlns");
+      if (nsDefinitions.length !== 0) {
+        nameResolver.enterContext();
+        for (const attr of nsDefinitions) {
+          nameResolver.definePrefix(attr.name === "xmlns" ? "" : attr.local, attr.value);
         }
       }
+      contextStack.push(nsDefinitions.length !== 0);
 
       fireEvent("enterStartTag", [node.uri, node.local]);
       let left = false;
@@ -313,18 +486,18 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
               // we need to rely on the stack
               const att: SaxesAttributeNS = attStack[attStack.length - 1];
               if (att) {
-                fireEvent("attributeName", [att.uri, att.name]);
+                fireEvent("attributeName", [att.uri, att.local]);
               }
-              showValSuggestion();
+              showValSuggestion(node, att);
             } else if (offset === parser.position - 2) {
               // there were no previous attributes, so we can't rely on the stack.
               // -2 makes up for equal sign and first quote already consumed
               const atts = Object.entries(node.attributes);
               const att = atts[atts.length - 1];
               if (att) {
-                fireEvent("attributeName", [att[1].uri, att[1].name]);
+                fireEvent("attributeName", [att[1].uri, att[1].local]);
               }
-              showValSuggestion();
+              showValSuggestion(node, att?.[1]);
             }            
             break;
           case TAG:
@@ -353,6 +526,9 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
         throw new Error("stack underflow");
       }
       fireEvent("endTag", [tagInfo.uri, tagInfo.local]);
+      if (contextStack.pop()) {
+        nameResolver.leaveContext();
+      }
       if (position.line === parser.line - 1 && offset - 1 === parser.position) {
         if (request === TAG) {
           showElementSuggestion(elementStack.slice(-1)[0]);
@@ -372,6 +548,13 @@ async function getCompletions(storedGrammar: StoredGrammar, rngSource: string, x
   } catch(err) {
     // Ignore sax errors because we expect the file to not be well formed at this stage.
   } 
+
+  if (valueTypes.size) {
+    // Replace the value typed so far, including any "#".
+    const typed = (xmlSource.slice(0, offset).match(/[^\s"']*$/) as RegExpMatchArray)[0];
+    const range = new vscode.Range(position.translate(0, -typed.length), position);
+    items.push(...await datatypeCompletions(valueTypes, xmlSource, xmlURI, range));
+  }
   
   return items;
 }
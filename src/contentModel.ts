@@ -0,0 +1,160 @@
+import { BaseName, Grammar, Name } from 'salve-annos';
+import { Attribute, Choice, Data, Element, Group, Interleave, List, OneOrMore, Pattern, Ref, Text, Value } from 'salve-annos/lib/salve/patterns';
+
+// Allowed attributes and children of an element, and whether they are required.
+export interface ContentModel {
+  attributes: Map<BaseName, boolean>;
+  children: Map<BaseName, boolean>;
+  text: boolean;
+}
+
+export interface RequiredAttribute {
+  name: Name;
+  // Allowed values, when the schema lists them.
+  values: string[];
+}
+
+// What an element must contain to be valid, in document order. A list of
+// elements is a choice between them. Only elements with a single name are
+// included.
+export interface RequiredContent {
+  attributes: RequiredAttribute[];
+  children: (Element | Element[])[];
+}
+
+/**
+ * Maps the names of the elements of a grammar to their definitions. Names in
+ * possible() events are the same objects, so they can be looked up here.
+ */
+export function elementsByName(tree: Grammar): Map<BaseName, Element> {
+  const elements = new Map<BaseName, Element>();
+  for (const definitions of Object.values(tree.elementDefinitions)) {
+    for (const element of definitions) {
+      elements.set(element.name, element);
+    }
+  }
+  return elements;
+}
+
+function addName(names: Map<BaseName, boolean>, name: BaseName, required: boolean): void {
+  names.set(name, required || !!names.get(name));
+}
+
+function summarize(pattern: Pattern, required: boolean, model: ContentModel): void {
+  if (pattern instanceof Attribute) {
+    addName(model.attributes, pattern.name, required);
+  } else if (pattern instanceof Ref) {
+    addName(model.children, pattern.element.name, required);
+  } else if (pattern instanceof Choice) {
+    // Anything in a choice, including optional patterns, may be left out.
+    summarize(pattern.patA, false, model);
+    summarize(pattern.patB, false, model);
+  } else if (pattern instanceof Group || pattern instanceof Interleave) {
+    summarize(pattern.patA, required, model);
+    summarize(pattern.patB, required, model);
+  } else if (pattern instanceof OneOrMore) {
+    summarize(pattern.pat, required, model);
+  } else if (pattern instanceof Text || pattern instanceof Data || pattern instanceof Value || pattern instanceof List) {
+    model.text = true;
+  }
+}
+
+export function contentModel(element: Element): ContentModel {
+  const model: ContentModel = {attributes: new Map(), children: new Map(), text: false};
+  summarize(element.pat, true, model);
+  return model;
+}
+
+// Values of a choice of values, or none if anything else is allowed.
+function attributeValues(pattern: Pattern): string[] {
+  if (pattern instanceof Value) {
+    return [pattern.rawValue];
+  }
+  if (pattern instanceof Choice) {
+    const a = attributeValues(pattern.patA);
+    const b = attributeValues(pattern.patB);
+    return a.length && b.length ? a.concat(b) : [];
+  }
+  return [];
+}
+
+// Elements of a choice between elements only, or none.
+function choiceElements(pattern: Pattern): Element[] {
+  if (pattern instanceof Ref) {
+    return pattern.element.name instanceof Name ? [pattern.element] : [];
+  }
+  if (pattern instanceof Choice) {
+    const a = choiceElements(pattern.patA);
+    const b = choiceElements(pattern.patB);
+    return a.length && b.length ? a.concat(b) : [];
+  }
+  return [];
+}
+
+function collectRequired(pattern: Pattern, content: RequiredContent): void {
+  if (pattern instanceof Attribute) {
+    if (pattern.name instanceof Name) {
+      content.attributes.push({name: pattern.name, values: attributeValues(pattern.pat)});
+    }
+  } else if (pattern instanceof Ref) {
+    if (pattern.element.name instanceof Name) {
+      content.children.push(pattern.element);
+    }
+  } else if (pattern instanceof Choice) {
+    if (!pattern.hasEmptyPattern()) {
+      const elements = choiceElements(pattern);
+      if (elements.length) {
+        content.children.push(elements);
+      }
+    }
+  } else if (pattern instanceof Group || pattern instanceof Interleave) {
+    collectRequired(pattern.patA, content);
+    collectRequired(pattern.patB, content);
+  } else if (pattern instanceof OneOrMore) {
+    collectRequired(pattern.pat, content);
+  }
+}
+
+function collectData(pattern: Pattern, data: Data[]): void {
+  if (pattern instanceof Data) {
+    data.push(pattern);
+  } else if (pattern instanceof Choice || pattern instanceof Group || pattern instanceof Interleave) {
+    collectData(pattern.patA, data);
+    collectData(pattern.patB, data);
+  } else if (pattern instanceof OneOrMore || pattern instanceof List) {
+    collectData(pattern.pat, data);
+  }
+}
+
+function collectAttributeData(pattern: Pattern, ns: string, local: string, data: Data[]): void {
+  if (pattern instanceof Attribute) {
+    if (pattern.name.match(ns, local)) {
+      collectData(pattern.pat, data);
+    }
+  } else if (pattern instanceof Choice || pattern instanceof Group || pattern instanceof Interleave) {
+    collectAttributeData(pattern.patA, ns, local, data);
+    collectAttributeData(pattern.patB, ns, local, data);
+  } else if (pattern instanceof OneOrMore) {
+    collectAttributeData(pattern.pat, ns, local, data);
+  }
+}
+
+/**
+ * Lists the datatypes an attribute of an element may hold. possible() only
+ * gives the patterns of datatypes, which some of them share.
+ */
+export function attributeData(element: Element, ns: string, local: string): Data[] {
+  const data: Data[] = [];
+  collectAttributeData(element.pat, ns, local, data);
+  return data;
+}
+
+/**
+ * Lists the attributes and children an element can't do without. Choices
+ * that aren't between elements are left to the user.
+ */
+export function requiredContent(element: Element): RequiredContent {
+  const content: RequiredContent = {attributes: [], children: []};
+  collectRequired(element.pat, content);
+  return content;
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { SaxesParser, SaxesTag } from 'saxes';
+
+// Labels longer than this are cut, headings can be whole paragraphs.
+const MAX_LABEL = 60;
+
+/**
+ * Where an element gets its label from, from the `sxml.outlineLabels`
+ * setting: keys like `div` or `div[@type="chapter"]`, values listing child
+ * elements (`head`) or attributes (`@n`) to try in order.
+ */
+export interface LabelRule {
+  element: string;
+  attribute?: string;
+  value?: string;
+  sources: string[];
+}
+
+// An element being parsed, with where its label comes from.
+interface OpenElement {
+  symbol: vscode.DocumentSymbol;
+  rule?: LabelRule;
+  // Label from a child element, when one was found.
+  childLabel?: string;
+  attributeLabel?: string;
+  // Text of the child element the parent takes its label from.
+  labelText?: string;
+}
+
+// Reads the rules of the setting, those with conditions on attributes first.
+export function labelRules(setting: Record<string, string>): LabelRule[] {
+  const rules: LabelRule[] = [];
+  for (const [key, sources] of Object.entries(setting)) {
+    const match = key.trim().match(/^([^\[\s]+)(?:\[@([^=\]\s]+)(?:\s*=\s*["']([^"']*)["'])?\])?$/);
+    if (!match) {
+      console.log(`Invalid outline label key "${key}"`);
+      continue;
+    }
+    rules.push({element: match[1], attribute: match[2], value: match[3], sources: sources.split(/\s+/).filter(s => s)});
+  }
+  return rules.sort((a, b) => (b.attribute ? 1 : 0) + (b.value !== undefined ? 1 : 0)
+    - (a.attribute ? 1 : 0) - (a.value !== undefined ? 1 : 0));
+}
+
+function localName(qname: string): string {
+  return qname.slice(qname.indexOf(':') + 1);
+}
+
+function findRule(rules: LabelRule[], tag: SaxesTag): LabelRule | undefined {
+  const attributes = tag.attributes as Record<string, string>;
+  return rules.find(rule => (rule.element === tag.name || rule.element === localName(tag.name))
+    && (!rule.attribute || attributes[rule.attribute] !== undefined)
+    && (rule.value === undefined || attributes[rule.attribute as string] === rule.value));
+}
+
+function cleanLabel(text: string): string {
+  const label = text.replace(/\s+/g, ' ').trim();
+  return label.length > MAX_LABEL ? label.slice(0, MAX_LABEL - 1) + '…' : label;
+}
+
+/**
+ * Lists the elements of the document as a tree of symbols, for the outline
+ * and breadcrumbs. Documents that are not well-formed are parsed as far as
+ * possible, elements left open end with the document.
+ */
+export function documentSymbols(xmlSource: string, rules: LabelRule[],
+  positionAt: (offset: number) => vscode.Position): vscode.DocumentSymbol[] {
+  const parser = new SaxesParser({ position: true });
+  const roots: vscode.DocumentSymbol[] = [];
+  const stack: OpenElement[] = [];
+  let tagStart = 0;
+
+  const range = (start: number, end: number) => new vscode.Range(positionAt(start), positionAt(end));
+
+  function close(element: OpenElement, end: number): void {
+    const label = element.rule?.sources
+      .map(source => source.startsWith('@') ? element.attributeLabel : element.childLabel)
+      .find(l => l);
+    if (label) {
+      element.symbol.name += ` ${label}`;
+    }
+    element.symbol.range = new vscode.Range(element.symbol.range.start, positionAt(end));
+    const parent = stack[stack.length - 1];
+    if (parent && element.labelText !== undefined && !parent.childLabel) {
+      parent.childLabel = cleanLabel(element.labelText);
+    }
+    (parent ? parent.symbol.children : roots).push(element.symbol);
+  }
+
+  parser.on('error', (err: Error) => {
+    console.log("Outline of a document that is not well-formed", err.message);
+  });
+
+  parser.on('opentagstart', () => {
+    tagStart = xmlSource.lastIndexOf('<', parser.position - 1);
+  });
+
+  parser.on('opentag', (tag: SaxesTag) => {
+    const attributes = tag.attributes as Record<string, string>;
+    const tagRange = range(tagStart, parser.position);
+    const id = attributes['xml:id'];
+    const rule = findRule(rules, tag);
+    const kind = rule ? vscode.SymbolKind.Namespace : vscode.SymbolKind.Field;
+    const element: OpenElement = {
+      symbol: new vscode.DocumentSymbol(tag.name, id ? `#${id}` : '', kind, tagRange, tagRange),
+      rule,
+    };
+    const attributeSource = rule?.sources.find(source => source.startsWith('@') && attributes[source.slice(1)]);
+    if (attributeSource) {
+      element.attributeLabel = cleanLabel(attributes[attributeSource.slice(1)]);
+    }
+    const parent = stack[stack.length - 1];
+    if (parent?.rule && !parent.childLabel && stack.every(open => open.labelText === undefined)
+      && parent.rule.sources.some(source => source === tag.name || source === localName(tag.name))) {
+      element.labelText = '';
+    }
+    stack.push(element);
+  });
+
+  parser.on('text', (text: string) => {
+    for (const open of stack) {
+      if (open.labelText !== undefined) {
+        open.labelText += text;
+      }
+    }
+  });
+
+  parser.on('closetag', () => {
+    const element = stack.pop();
+    if (element) {
+      close(element, parser.position);
+    }
+  });
+
+  try {
+    parser.write(xmlSource).close();
+  } catch(err) {
+    console.log("Could not parse document for outline", (err as Error).message);
+  }
+  while (stack.length) {
+    close(stack.pop() as OpenElement, xmlSource.length);
+  }
+  return roots;
+}
+
+/**
+ * Shows the element tree in the outline and breadcrumbs, with labels for
+ * structural elements taken from their headings or attributes.
+ */
+class XMLDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  public provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const setting: Record<string, string> = vscode.workspace.getConfiguration("sxml").get("outlineLabels") ?? {};
+    return documentSymbols(document.getText(), labelRules(setting), offset => document.positionAt(offset));
+  }
+}
+
+export default XMLDocumentSymbolProvider;
@@ -1,76 +1,109 @@
 import * as vscode from 'vscode';
 import SalveCompletionProvider from './completion';
+import SchemaCache, { StoredGrammar } from './schemaCache';
+import { XMLCatalog } from './catalog';
+import SalveCodeActionProvider, { SchemaDiagnostic } from './codeActions';
+import SalveHoverProvider from './hover';
+import XMLIdNavigationProvider, { pointerAttributes } from './idNavigation';
+import XMLDocumentSymbolProvider from './documentSymbols';
+import XMLRangeProvider from './xmlRanges';
+import { wrapWithElement } from './wrapElement';
+import ValidationScheduler, { ValidationRun } from './validationScheduler';
+import ValidationClient from './validationClient';
+import { SchematronRef } from './validationWorker';
+import { duplicateIds, ERR_SCHEMA, ERR_VALID, ERR_WELLFORM, Problem, Severity, ValidationResult } from './validationEngine';
+import { embedsSchematron, schemaModels, schemaName } from './xmlModels';
 import 'cross-fetch/polyfill';
 import * as url from 'url';
 import * as path from 'path';
-import { Grammar, convertRNGToPattern, DefaultNameResolver } from 'salve-annos';
-import { SaxesParser, SaxesTag, SaxesAttributeNS } from 'saxes';
-import Schematron from 'node-xsl-schematron';
-
-const ERR_VALID = 'ERR_VALID';
-const ERR_WELLFORM = 'ERR_WELLFORM';
-const ERR_SCHEMA = 'ERR_SCHEMA';
-const NO_ERR = 'NO_ERR';
+import { Grammar } from 'salve-annos';
 
 
 // XML Name regex (minus : and [#x10000-#xEFFFF] range)
 const nameStartChar = new RegExp(/_|[A-Z]|[a-z]|[\u00C0-\u00D6]|[\u00D8-\u00F6]|[\u00F8-\u02FF]|[\u0370-\u037D]|[\u037F-\u1FFF]|[\u200C-\u200D]|[\u2070-\u218F]|[\u2C00-\u2FEF]|[\u3001-\uD7FF]|[\uF900-\uFDCF]|[\uFDF0-\uFFFD]/);
 const nameChar = new RegExp(`${nameStartChar.source}|-|\\.|[0-9]|\u00B7|[\u0300-\u036F]|[\u203F-\u2040]`);
-const XMLname = new RegExp(`^(${nameStartChar.source})(${nameChar.source})*$`);
+export const XMLname = new RegExp(`^(${nameStartChar.source})(${nameChar.source})*$`);
 
-export interface StoredGrammar {
-  rngURI?: string;
-  grammar?: Grammar | void;
+let diagnosticCollection: vscode.DiagnosticCollection;
+let schemaCache: SchemaCache;
+let catalog: XMLCatalog | undefined;
+let workspaceWatcher: vscode.FileSystemWatcher | undefined;
+let validationScheduler: ValidationScheduler;
+let validationClient: ValidationClient;
+
+
+export interface SchemaInfo {
+  // RELAX NG schema, if any.
+  schema?: string;
+  // Schematron phase for the rules embedded in the RNG, if set by xml-model.
+  schemaPhase?: string;
+  // Standalone Schematron files.
+  schematrons: SchematronModel[];
+  fileText: string;
+  xmlURI: vscode.Uri;
 }
 
-export interface GrammarStore {
-  [key: string]: StoredGrammar;
+export interface SchematronModel {
+  url: string;
+  // Phase set by xml-model, if any.
+  phase?: string;
 }
 
-let diagnosticCollection: vscode.DiagnosticCollection;
-const grammarStore: GrammarStore = {};
-const sch = new Schematron();
-let validations: {
-  parsePromise: Promise<void>,
-  controller: AbortController
-}[] = [];
-
-
-type TagInfo = {
-  uri: string;
-  local: string;
-  hasContext: boolean;
+// Severities of the problems found by the validation worker.
+const SEVERITIES: Record<Severity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
 };
 
-export function normalizeSchemaUrl(schemaURL: string): string {
+
+// Whether a location is a full URL rather than a path.
+function isURL(location: string): boolean {
   try {
-    new URL(schemaURL);
-    return schemaURL;
+    return Boolean(new URL(location));
   } catch (error) {
+    return false;
+  }
+}
+
+export function normalizeSchemaUrl(schemaURL: string, baseURI?: vscode.Uri): string {
+  let normalized: string;
+  if (isURL(schemaURL)) {
+    normalized = schemaURL;
+  } else {
     const schemaPath = path.parse(schemaURL);
-    const activeEditor = vscode.window.activeTextEditor;
+    const base = baseURI ?? vscode.window.activeTextEditor?.document.uri;
     // Determine whether it's a local path.
     if (schemaPath.root !== "") {
-      return url.pathToFileURL(schemaURL).toString();
+      normalized = url.pathToFileURL(schemaURL).toString();
     } else {
       console.log("Schema URL is not a full URL, treating as relative path");
       // This is NOT a full URL, so treat this as a relative path
-      const basePath = activeEditor?.document.uri.path.split('/').slice(0, -1).join('/');
-      return url.pathToFileURL(basePath + '/' + schemaURL).toString();
+      const basePath = base?.path.split('/').slice(0, -1).join('/');
+      normalized = url.pathToFileURL(basePath + '/' + schemaURL).toString();
     }
   }
+  // Use a local copy if the catalogs have one.
+  const mapped = catalog?.resolve(normalized);
+  if (mapped) {
+    console.log("Schema URL mapped by catalog to", mapped);
+    return mapped;
+  }
+  return normalized;
 }
 
-export function locateSchema(): {schema: string, fileText: string, xmlURI: vscode.Uri} | void {
-  const activeEditor = vscode.window.activeTextEditor;
-  if (!activeEditor) {
+// Locates the schemas of a document, by default the one in the active editor.
+export function locateSchema(document = vscode.window.activeTextEditor?.document): SchemaInfo | void {
+  if (!document) {
     return;
   }
   
-  const fileText = activeEditor.document.getText();
-  const xmlURI = activeEditor.document.uri;
+  return locateSchemaForText(document.getText(), document.uri);
+}
 
-  let extKey = activeEditor.document.fileName.split('.').pop() as keyof typeof defaultSchemas;
+export function locateSchemaForText(fileText: string, xmlURI: vscode.Uri): SchemaInfo | void {
+  let extKey = xmlURI.path.split('.').pop() as keyof typeof defaultSchemas;
 
   const defaultSchemas = vscode.workspace.getConfiguration("sxml").get("defaultSchemas") as {[key:string]:string};
 
@@ -81,483 +114,344 @@ export function locateSchema(): {schema: string, fileText: string, xmlURI: vscod
     schemaURL = defaultSchemas[extKey];
   }
 
-  // Locate RNG from active file
-  let schemaURLMatch = fileText.match(/<\?xml-model.*?href="([^"]+)".+?schematypens="http:\/\/relaxng.org\/ns\/structure\/1.0"/s);
-  // Retry with schematypens first
-  schemaURLMatch = schemaURLMatch ? schemaURLMatch : fileText.match(/<\?xml-model.+?schematypens="http:\/\/relaxng.org\/ns\/structure\/1.0".+?href="([^"]+)"/s);
+  // Locate RNG (XML or compact syntax) from file
+  const {rng: rngModel, schematrons: schematronModels} = schemaModels(fileText);
 
   // If RNG set inside document, use that.  Otherwise use rng provided by settings.  If neither exist, simply return.
-  if (schemaURLMatch) {
+  if (rngModel) {
     // Get schema URL from document if possible, overriding settings if needed
-    schemaURL = schemaURLMatch[1];
-    console.log("Now schemaURL is: ", schemaURL)
+    schemaURL = rngModel.href;
+    console.log("Now schemaURL is: ", schemaURL);
+  }
+  // Start by assuming it's a full URL.
+  const schema = schemaURL ? normalizeSchemaUrl(schemaURL, xmlURI) : undefined;
+
+  // Schematron rules embedded in the RNG are checked with it, so only keep other files.
+  let schemaPhase: string | undefined;
+  const schematrons: SchematronModel[] = [];
+  for (const model of schematronModels) {
+    const schematron = normalizeSchemaUrl(model.href, xmlURI);
+    if (schematron === schema) {
+      schemaPhase = model.phase;
+    } else if (!schematrons.some(s => s.url === schematron)) {
+      schematrons.push({url: schematron, phase: model.phase});
+    }
   }
-  if (schemaURL) {
-    // Start by assuming it's a full URL.
-    let schema = normalizeSchemaUrl(schemaURL);
-    return {schema, fileText, xmlURI};
+
+  if (schema || schematrons.length > 0) {
+    return {schema, schemaPhase, schematrons, fileText, xmlURI};
   } else {
-    console.log("No schema URL specified in either settings or the file")
+    console.log("No schema URL specified in either settings or the file");
     return;
   }
 }
 
 export async function grammarFromSource(rngSource: string): Promise<Grammar | void> {
-	// Treat it as a Relax NG schema.
-  const schemaURL = new URL(rngSource);
-  try {
-    const s = await convertRNGToPattern(schemaURL);
-    // s.schemaText --> use this for schematron validation
-    await sch.setRNG(s.schemaText);
-    return s.pattern;
-  } catch(err) {
-    vscode.window.showInformationMessage('Could not parse schema.');
-  }
+  const compiled = await schemaCache.get(rngSource);
+  return compiled?.grammar;
 }
 
-async function parseWithoutSchema(xmlSource: string, xmlURI: string): Promise<String> {
-  diagnosticCollection.clear();
-  let error = NO_ERR;
-  let diagnosticMap: Map<string, vscode.Diagnostic[]> = new Map();
-  const parser = new SaxesParser({ xmlns: true, position: true });
-  try {
-    parser.write(xmlSource).close();
-  } catch(err: unknown) {
-    const e = err as Error
-    error = ERR_WELLFORM;
-    let range = new vscode.Range(parser.line-1, 0, parser.line-1, parser.column);
-    let diagnostics = diagnosticMap.get(xmlURI);
-    if (!diagnostics) { diagnostics = []; }
-    diagnostics.push(new vscode.Diagnostic(range, e.message));
-    diagnosticMap.set(xmlURI, diagnostics);
+// Shows a problem found by the validation worker, keeping what quick fixes need.
+function toDiagnostic(problem: Problem): vscode.Diagnostic {
+  const {start, end} = problem.range;
+  const range = new vscode.Range(start.line, start.character, end.line, end.character);
+  const diagnostic = problem.data
+    ? new SchemaDiagnostic(range, problem.message, SEVERITIES[problem.severity])
+    : new vscode.Diagnostic(range, problem.message, SEVERITIES[problem.severity]);
+  diagnostic.source = problem.source;
+  if (problem.data) {
+    (diagnostic as SchemaDiagnostic).data = problem.data;
   }
+  const {code} = problem;
+  diagnostic.code = typeof code === 'object' ? {value: code.value, target: vscode.Uri.parse(code.target)} : code;
+  return diagnostic;
+}
 
-  // Show diagnostics.
-  diagnosticMap.forEach((diags, file) => {
-    diagnosticCollection.set(vscode.Uri.parse(file), diags);
+// Validates against the compiled schema in the worker, or only checks
+// well-formedness without a schema.
+async function validateText(fileText: string, schema: string | undefined, stored: StoredGrammar | void,
+  signal?: AbortSignal, document?: string): Promise<ValidationResult & {diagnostics: vscode.Diagnostic[]}> {
+  const grammar = stored?.simplified ? await validationClient.loadGrammar(stored, stored.simplified) : undefined;
+  const result = await validationClient.validate(fileText, {
+    schema: schema ? {grammar, source: schemaName(schema)} : undefined,
+    // Open documents are validated again from around where they changed.
+    document,
+    signal,
   });
+  return {...result, diagnostics: result.problems.map(toDiagnostic)};
+}
 
-  return error;
+// Checks xml:ids and the pointers to them in the worker, with the text of the
+// other documents being edited. Duplicate xml:ids the schema reported aren't
+// reported twice.
+async function idDiagnostics(fileText: string, xmlURI: vscode.Uri, validated: Problem[],
+  signal?: AbortSignal): Promise<vscode.Diagnostic[]> {
+  const unsaved: Record<string, string> = {};
+  vscode.workspace.textDocuments
+    .filter(doc => doc.isDirty && doc.uri.scheme === 'file' && doc.uri.toString() !== xmlURI.toString())
+    .forEach(doc => unsaved[doc.uri.fsPath] = doc.getText());
+  const problems = await validationClient.checkIds(fileText, xmlURI.toString(), pointerAttributes(), unsaved,
+    duplicateIds(validated), signal);
+  return problems.map(toDiagnostic);
 }
 
-async function parse(isNewSchema: boolean, rngSource: string, xmlSource: string, xmlURI: string): Promise<{errorType: string, errorCount: number, diagnostics: vscode.Diagnostic[]}> {
-  // Parsing function adapted from 
-  // https://github.com/mangalam-research/salve/blob/0fd149e44bc422952d3b095bfa2cdd8bf76dd15c/lib/salve/parse.ts
-  // Mozilla Public License 2.0
+async function parseWithoutSchema(xmlSource: string, xmlURI: vscode.Uri, signal?: AbortSignal): Promise<{errorType: string, diagnostics: vscode.Diagnostic[]}> {
+  const {errorType, problems, diagnostics} = await validateText(xmlSource, undefined, undefined, signal);
+  const idDiags = errorType === ERR_WELLFORM ? [] : await idDiagnostics(xmlSource, xmlURI, problems, signal);
+  return {errorType, diagnostics: diagnostics.concat(idDiags)};
+}
 
-  const parser = new SaxesParser({ xmlns: true, position: true });
-  let tree: void | Grammar | null = null;
-  let errorCount = 0;
+// The phase set in the file takes precedence over the one from settings.
+function schematronPhase(phase?: string): string | undefined {
+  const selected = phase || vscode.workspace.getConfiguration("sxml").get("schematronPhase") as string;
+  return selected && selected !== '#DEFAULT' ? selected : undefined;
+}
 
-  // Only get grammar from source if necessary.
-  if (!isNewSchema) {
-    tree = grammarStore[xmlURI].grammar;
-  }
-  if (!tree) {
-    tree = await grammarFromSource(rngSource);
-  }
-  if (tree) {
-    grammarStore[xmlURI].grammar = tree;
-  } else {
-    errorCount++;
-    return {
-      errorType: ERR_SCHEMA,  
-      errorCount: errorCount, 
-      diagnostics: []
-    };
-  }
+const unparsedSchematrons = new WeakSet<StoredGrammar>();
 
-	const nameResolver = new DefaultNameResolver();
-	const walker = tree.newWalker(nameResolver);
-	
-  let error = NO_ERR;
-  
-  // Set up VS code error report
-  diagnosticCollection.clear();
-  let diagnosticMap: Map<string, vscode.Diagnostic[]> = new Map();
-
-  function fireEvent(name: string, args: any[]): void {
-		const ret = walker.fireEvent(name, args);
-    if (ret instanceof Array) {
-      error = ERR_VALID;
-      errorCount += ret.length;
-
-      for (const err of ret) {
-        const lineNumber = parser.line - 1; // Convert to 0-based line
-        const errorColumn = parser.column;
-    
-        let startColumn = 0;
-        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === xmlURI.toString());
-        if (document) {
-            const lineText = document.lineAt(lineNumber).text;
-            let errorCol0 = errorColumn - 1; // Convert to 0-based
-            errorCol0 = Math.min(errorCol0, lineText.length - 1); // Ensure within bounds
-    
-            // Find the start of the tag by searching for '<' before the error column
-            for (let i = errorCol0; i >= 0; i--) {
-                if (lineText[i] === '<') {
-                    startColumn = i;
-                    break;
-                }
-            }
-        }
-    
-        // Create range from the start of the tag to the error column
-        let range = new vscode.Range(lineNumber, startColumn, lineNumber, errorColumn);
-        let diagnostics = diagnosticMap.get(xmlURI);
-        if (!diagnostics) { diagnostics = []; }
-    
-        const names = err.getNames();
-        const namesMsg = names.map((n: any) => {
-            const name = n.toJSON();
-            let ns = name.ns ? `(${name.ns})` : '';
-            return `"${name.name}" ${ns}`;
-        }).join(' ');
-    
-        diagnostics.push(new vscode.Diagnostic(range, `${err.msg} — ${namesMsg}`));
-        diagnosticMap.set(xmlURI, diagnostics);
-    }
-    }
+// Loads the Schematron rules embedded in the RNG and those from standalone
+// files into the validation worker.
+async function schematronSources(schemaInfo: SchemaInfo, stored: StoredGrammar | void): Promise<SchematronRef[]> {
+  const {schema} = schemaInfo;
+  const candidates: {owner: StoredGrammar | void, text?: string, url: string, phase?: string}[] = [];
+  if (schema && stored?.schemaText && embedsSchematron(stored.schemaText)) {
+    candidates.push({owner: stored, text: stored?.schemaText, url: schema, phase: schematronPhase(schemaInfo.schemaPhase)});
   }
+  const loaded = await Promise.all(schemaInfo.schematrons.map(sch => schemaCache.getSchematron(sch.url)));
+  loaded.forEach((owner, i) => {
+    const {url, phase} = schemaInfo.schematrons[i];
+    candidates.push({owner, text: owner?.schematronText, url, phase: schematronPhase(phase)});
+  });
 
-  const tagStack: TagInfo[] = [];
-  let textBuf = "";
-
-  function flushTextBuf(): void {
-    if (textBuf !== "") {
-      fireEvent("text", [textBuf]);
-      textBuf = "";
+  const sources: SchematronRef[] = [];
+  for (const {owner, text, url, phase} of candidates) {
+    if (!owner || !text) {
+      continue;
+    }
+    const key = await validationClient.loadSchematron(owner, text, phase);
+    if (key) {
+      sources.push({key, url, source: schemaName(url)});
+    } else if (!unparsedSchematrons.has(owner)) {
+      // Tell once, the worker doesn't try again until the schema changes.
+      unparsedSchematrons.add(owner);
+      vscode.window.showInformationMessage(`Could not parse Schematron ${url}.`);
     }
   }
-  
-  try {
-    parser.on('opentag', (node: SaxesTag) => {
-      flushTextBuf();
-      const names = Object.keys(node.attributes);
-      const nsDefinitions = [];
-      const attributeEvents = [];
-      names.sort();
-      for (const name of names) {
-        const attr = node.attributes[name] as SaxesAttributeNS;
-        if (name === "xmlns") { // xmlns="..."
-          nsDefinitions.push(["", attr.value]);
-        }
-        else if (attr.prefix === "xmlns") { // xmlns:...=...
-          nsDefinitions.push([attr.local, attr.value]);
-        }
-        else {
-          attributeEvents.push(["attributeName", attr.uri, attr.local],
-                               ["attributeValue", attr.value]);
-        }
-      }
-      if (nsDefinitions.length !== 0) {
-        nameResolver.enterContext();
-        for (const definition of nsDefinitions) {
-          nameResolver.definePrefix(definition[0], definition[1]);
-        }
-      }
-      fireEvent("enterStartTag", [node.uri, node.local]);
-      for (const event of attributeEvents) {
-        fireEvent(event[0], event.slice(1));
-      }
-      fireEvent("leaveStartTag", []);
-      tagStack.push({
-        uri: node.uri || '',
-        local: node.local || '',
-        hasContext: nsDefinitions.length !== 0,
-      });
-    });
-  
-    parser.on('text', (text: string) => {
-      textBuf += text;
-    });
-  
-    parser.on('closetag', () => {
-      flushTextBuf();
-      const tagInfo = tagStack.pop();
-      if (tagInfo === undefined) {
-        errorCount++;
-        throw new Error("stack underflow");
-      }
-      fireEvent("endTag", [tagInfo.uri, tagInfo.local]);
-      if (tagInfo.hasContext) {
-        nameResolver.leaveContext();
-      }
-    });
-  
-    const entityRe = /^<!ENTITY\s+([^\s]+)\s+(['"])(.*?)\2\s*>\s*/;
-  
-    parser.on('doctype', (doctype: string) => {
-      // This is an extremely primitive way to handle ENTITY declarations in a
-      // DOCTYPE. It is unlikely to support any kind of complicated construct.
-      // If a reminder need be given then: THIS PARSER IS NOT MEANT TO BE A
-      // GENERAL SOLUTION TO PARSING XML FILES!!! It supports just enough to
-      // perform some testing.
-      let cleaned = doctype
-        .replace(/^.*?\[/, "")
-        .replace(/].*?$/, "")
-        .replace(/<!--(?:.|\n|\r)*?-->/g, "")
-        .trim();
-  
-      while (cleaned.length !== 0) {
-        const match = entityRe.exec(cleaned);
-        if (match !== null) {
-          const name = match[1];
-          const value = match[3];
-          cleaned = cleaned.slice(match[0].length);
-          if (parser.ENTITIES[name] !== undefined) {
-            throw new Error(`redefining entity: ${name}`);
-          }
-          parser.ENTITIES[name] = value;
-        }
-        else {
-          errorCount++;
-          throw new Error(`unexpected construct in DOCTYPE: ${doctype}`);
-        }
-      }
-    });
-  
-    parser.on('end', () => {
-      const result = walker.end();
-      if (result !== false) {
-        error = ERR_WELLFORM;
-        errorCount+=result.length;
-        for (const err of result) {
-          console.log(`on end`);
-          console.log(err.toString());
-        }
-      }
-    });
-  
-    parser.write(xmlSource).close();
-  } catch(err) {
-    errorCount++;
-    const e = err as Error
-    error = ERR_WELLFORM;
-    let range = new vscode.Range(parser.line-1, 0, parser.line-1, parser.column);
-    let diagnostics = diagnosticMap.get(xmlURI);
-    if (!diagnostics) { diagnostics = []; }
-    diagnostics.push(new vscode.Diagnostic(range, e.message));
-    diagnosticMap.set(xmlURI, diagnostics);
-  } 
-
-  // Show diagnostics.
-  diagnosticMap.forEach((diags, file) => {
-    diagnosticCollection.set(vscode.Uri.parse(file), diags);
-  });
-
-  return {
-    errorType: error,
-    errorCount: errorCount,
-    diagnostics: diagnosticMap.get(xmlURI) || [],
-  };
+  return sources;
 }
 
-//xpath given by schematron has more data than needed
-//converts that custom xpath into its simpler version
-// /Q{...}tagName[index]/.../Q{...}tagName[index] ---> tagName[index]/.../tagName[index]
-function convertCustomXPath(customXPath: string): string {
-  const xPathComponents = customXPath.split('/Q').filter(Boolean);
-
-  const prefixedComponents = xPathComponents.map(component => {
-      const match = component.match(/^{([^}]+)}(.*)$/);
-      if (match) {
-        const elementName = match[2];
-        return `${elementName}`;
-      }
-      return component;
-  });
-
-  return prefixedComponents.join('/');
+// Schematron warnings and information don't count as errors.
+function countErrors(diagnostics: readonly vscode.Diagnostic[]): number {
+  return diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
 }
 
-
-//helper function for processXML to see if the two xpaths are a match
-function matchesXPath(currentPath: string[], xpath: string[]): boolean {
-  if (currentPath.length !== xpath.length) return false;
-  for (let i = 0; i < xpath.length; i++) {
-      if (xpath[i] !== currentPath[i] && xpath[i] !== '*') {
-          return false;
-      }
-  }
-  return true;
+async function schematronDiagnostics(schematrons: SchematronRef[], fileText: string, signal?: AbortSignal): Promise<vscode.Diagnostic[]> {
+  const problems = await validationClient.schematron(fileText, schematrons, signal);
+  return problems.map(toDiagnostic);
 }
 
+/**
+ * Validates a document and shows its diagnostics. Each document is validated
+ * on its own: the scheduler cancels this run when a newer one starts, and the
+ * status bar only shows the results of the active document.
+ */
+async function validateDocument(document: vscode.TextDocument, run: ValidationRun): Promise<void> {
+  const key = document.uri.toString();
+
+  // Work on the text as it is now, results for older text are dropped.
+  const fileText = document.getText();
+  const xmlURI = document.uri;
+  const setStatus = (message: string) => {
+    if (run.isCurrent() && vscode.window.activeTextEditor?.document.uri.toString() === key) {
+      vscode.window.setStatusBarMessage(message);
+    }
+  };
+  const setDiagnostics = (diagnostics: vscode.Diagnostic[]) => {
+    if (run.isCurrent()) {
+      diagnosticCollection.set(xmlURI, diagnostics);
+    }
+  };
 
-// gives the xpath expression, finds the line number using saxes parser
-async function processXML(xml: string, xpathExpression: string): Promise<[number, number, number, number]> {
-  const parser = new SaxesParser({ position: true });
-  const xpath = xpathExpression.split('/').filter(Boolean);
-  const currentPath: string[] = [];
-  let lastTag: string | undefined;
-
-  // Track start/end positions of the opening tag
-  let startLine = -1;
-  let startColumn = -1;
-  let endLine = -1;
-  let endColumn = -1;
-  const tagStartStack: Array<{ line: number, column: number }> = [];
-
-  parser.on('opentagstart', () => {
-    // Record the position where the opening tag starts
-    tagStartStack.push({
-      line: parser.line - 1, // Convert to 0-based
-      column: parser.column - 1,
-    });
-  });
-
-  parser.on('opentag', (node: SaxesTag) => {
-    // Get the start position from the stack
-    const tagStart = tagStartStack.pop();
-    if (!tagStart) return;
+  const doSchematronValidation = async (message: string, errorCount: number, diagnostics: vscode.Diagnostic[], schematrons: SchematronRef[]): Promise<void> => {
+    console.log('Running schematron');
+    setStatus(`$(gear~spin) ${message}; checking Schematron`);
+    // Manual timeout to ensure UI updates take place (50ms)
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const schDiagnostics = await schematronDiagnostics(schematrons, fileText, run.signal);
+    console.log('Ran schematron');
+    const totalErrors = countErrors(schDiagnostics) + errorCount;
+    setStatus(totalErrors ? `$(error) ${message} Errors: ${totalErrors}` : `$(check) ${message}`);
+    setDiagnostics(diagnostics.concat(schDiagnostics));
+  };
 
-    // Update currentPath
-    const match = lastTag?.match(/^(.*)\[(\d+)\]$/);
-    if (match && match[1] === node.name) {
-      currentPath.push(`${node.name}[${Number(match[2]) + 1}]`);
-    } else {
-      currentPath.push(`${node.name}[1]`);
+  const schemaInfo = locateSchemaForText(fileText, xmlURI);
+
+  if (!schemaInfo) {
+    const {errorType, diagnostics} = await parseWithoutSchema(fileText, xmlURI, run.signal);
+    setDiagnostics(diagnostics);
+    switch (errorType) {
+      case ERR_WELLFORM:
+        setStatus('$(error) XML is not well formed.');
+        break;
+      default:
+        setStatus('$(check) XML is well formed.');
     }
+    return;
+  }
 
-    // Check if this tag matches the XPath
-    if (matchesXPath(currentPath, xpath)) {
-      // get start/end positions of the opening tag
-      startLine = tagStart.line;
-      startColumn = tagStart.column;
-      endLine = parser.line - 1; // Position after ">"
-      endColumn = parser.column - 1;
-    }
-  });
+  const {schema} = schemaInfo;
+  // Compiled schemas are shared through the cache.
+  const stored = schema ? await schemaCache.get(schema) : undefined;
+  const schematrons = await schematronSources(schemaInfo, stored);
+  let {errorType, errorCount, problems, diagnostics} = await validateText(fileText, schema, stored, run.signal, key);
+
+  // Pointers and xml:ids are only checked in well-formed documents.
+  if (errorType !== ERR_WELLFORM) {
+    const idDiags = await idDiagnostics(fileText, xmlURI, problems, run.signal);
+    diagnostics = diagnostics.concat(idDiags);
+    errorCount += countErrors(idDiags);
+  }
+  // Show diagnostics.
+  setDiagnostics(diagnostics);
+  switch (errorType) {
+    case ERR_VALID:
+      await doSchematronValidation("XML is not valid", errorCount, diagnostics, schematrons);
+      break;
+    case ERR_WELLFORM:
+      setStatus('$(error) XML is not well formed.');
+      break;
+    case ERR_SCHEMA:
+      await doSchematronValidation("RNG schema is incorrect.", errorCount, diagnostics, schematrons);
+      break;
+    default:
+      await doSchematronValidation("XML is valid.", errorCount, diagnostics, schematrons);
+  }
+}
 
-  parser.on('closetag', () => {
-    lastTag = currentPath.pop();
-  });
+// WORKSPACE VALIDATION
 
-  parser.on('error', (error: Error) => {
-    console.error('Error:', error);
-  });
+// Glob matching the files to validate: .xml files and those with an extension
+// that has a default schema. Languages to check are ids, not extensions.
+export function workspaceGlob(): string {
+  const defaultSchemas = vscode.workspace.getConfiguration("sxml").get("defaultSchemas") as {[key:string]:string};
+  const extensions = new Set(["xml", ...Object.keys(defaultSchemas)]);
+  return `**/*.{${Array.from(extensions).join(',')}}`;
+}
 
-  parser.write(xml).close();
-  return [startLine, startColumn, endLine, endColumn];
+export async function readFileText(fileURI: vscode.Uri): Promise<string> {
+  // Prefer the editor content if the file is open, since it may not be saved.
+  const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === fileURI.toString());
+  if (document) {
+    return document.getText();
+  }
+  const content = await vscode.workspace.fs.readFile(fileURI);
+  return new TextDecoder().decode(content);
 }
 
-function doValidation(): void {
+// Validates a single file and stores its diagnostics. Returns the number of errors found.
+async function validateFile(xmlURI: vscode.Uri): Promise<number> {
+  // Open files are validated as they are edited, and their diagnostics may
+  // be for unsaved text, so only count them.
+  if (vscode.workspace.textDocuments.some(doc => doc.uri.toString() === xmlURI.toString())) {
+    return countErrors(diagnosticCollection.get(xmlURI) ?? []);
+  }
+  const fileText = await readFileText(xmlURI);
+  const schemaInfo = locateSchemaForText(fileText, xmlURI);
 
-  console.log("validating...")
-  if (validations.length > 0) {
-    console.log(validations)
-    console.log("aborting latest validation process")
-    for (const [index, v] of validations.entries()) {
-      v.controller.abort();
-      validations.splice(index, 1);
-    }
+  if (!schemaInfo) {
+    const {errorType, diagnostics} = await parseWithoutSchema(fileText, xmlURI);
+    diagnosticCollection.set(xmlURI, diagnostics);
+    return errorType === ERR_WELLFORM ? 1 : 0;
   }
 
-  const doSchematronValidation = (message: string, errorCount: number, diagnostics: vscode.Diagnostic[]): void => {
-    console.log('Running schematron')
-    vscode.window.setStatusBarMessage(`$(gear~spin) ${message}; checking Schematron`)
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor) {
-      return;
-    }
-    const fileText = activeEditor.document.getText(); 
+  const {schema} = schemaInfo;
+  const stored = schema ? await schemaCache.get(schema) : undefined;
 
-    // Manual timeout to ensure UI updates take place (50ms)
-    setTimeout(() => { 
-      sch.validate(fileText).then(async (errors: any) => {
-      console.log('Ran schematron')
-      const totalErrors = errors ?  errors.length + errorCount : errorCount
-      vscode.window.setStatusBarMessage(totalErrors ? `$(error) ${message} Errors: ${totalErrors}` : `$(check) ${message}`);
-
-      diagnosticCollection.clear();
-      let schematronDiagnostics = [];
-
-      if (errors){
-        for (const err of errors) {
-          const xpath = convertCustomXPath(err.location);
-          const [startLine, startColumn, endLine, endColumn] = await processXML(fileText, xpath);
-
-          const errorRange = new vscode.Range(startLine, startColumn, endLine, endColumn);
-          schematronDiagnostics.push(new vscode.Diagnostic(errorRange, err.text));
+  const {errorType, errorCount, problems, diagnostics} = await validateText(fileText, schema, stored);
+  let idDiags: vscode.Diagnostic[] = [];
+  let schDiagnostics: vscode.Diagnostic[] = [];
+  if (errorType !== ERR_WELLFORM) {
+    idDiags = await idDiagnostics(fileText, xmlURI, problems);
+    schDiagnostics = await schematronDiagnostics(await schematronSources(schemaInfo, stored), fileText);
+  }
+  diagnosticCollection.set(xmlURI, diagnostics.concat(idDiags, schDiagnostics));
+  return errorCount + countErrors(idDiags) + countErrors(schDiagnostics);
+}
+
+async function validateWorkspace(background: boolean): Promise<void> {
+  const files = await vscode.workspace.findFiles(workspaceGlob());
+
+  await vscode.window.withProgress({
+    location: background ? vscode.ProgressLocation.Window : vscode.ProgressLocation.Notification,
+    title: 'Scholarly XML: validating workspace',
+    cancellable: true,
+  }, async (progress, token) => {
+    let validated = 0;
+    let invalid = 0;
+    for (const file of files) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      progress.report({
+        message: `${vscode.workspace.asRelativePath(file)} (${validated + 1}/${files.length})`,
+        increment: 100 / files.length,
+      });
+      try {
+        if (await validateFile(file) > 0) {
+          invalid++;
         }
+      } catch(err) {
+        console.error(`Could not validate ${file.toString()}`, err);
       }
+      validated++;
+    }
+    const summary = `${validated} of ${files.length} files validated, ${invalid} with errors.`;
+    vscode.window.setStatusBarMessage(invalid ? `$(error) ${summary}` : `$(check) ${summary}`);
+  });
+}
 
-      const schemaInfo = locateSchema();
-      if (schemaInfo) {
-        const {xmlURI} = schemaInfo;
-        diagnosticCollection.set(xmlURI, diagnostics.concat(schematronDiagnostics));
-      }
-    });},50)
+function watchWorkspace(context: vscode.ExtensionContext): void {
+  const enabled = vscode.workspace.getConfiguration("sxml").get("validateWorkspaceInBackground") as boolean;
+  workspaceWatcher?.dispose();
+  workspaceWatcher = undefined;
+  if (!enabled) {
+    return;
   }
+  workspaceWatcher = vscode.workspace.createFileSystemWatcher(workspaceGlob());
+  const revalidate = (uri: vscode.Uri) => {
+    validateFile(uri).catch(err => console.error(`Could not validate ${uri.toString()}`, err));
+  };
+  workspaceWatcher.onDidCreate(revalidate);
+  workspaceWatcher.onDidChange(revalidate);
+  workspaceWatcher.onDidDelete(uri => diagnosticCollection.delete(uri));
+  context.subscriptions.push(workspaceWatcher);
+  validateWorkspace(true);
+}
 
-  const schemaInfo = locateSchema();
+// CATALOGS
 
-  if (schemaInfo) {
-    let isNewSchema = false;
-    const {schema, fileText, xmlURI} = schemaInfo;
-    const _xmlURI = xmlURI.toString();
-    if (!grammarStore[_xmlURI]) {
-      grammarStore[_xmlURI] = {};
-    }
-    const savedSchemaLoc = grammarStore[_xmlURI].rngURI;
-    if (savedSchemaLoc !== schema) {
-      // clean up
-      grammarStore[_xmlURI].grammar = undefined;
-      grammarStore[_xmlURI].rngURI = schema;
-      isNewSchema = true;
+// Catalog locations from settings: URLs, absolute paths or paths relative to the workspace.
+function catalogURLs(): string[] {
+  const catalogs: string[] = vscode.workspace.getConfiguration("sxml").get("catalogs") ?? [];
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  return catalogs.map(c => {
+    if (isURL(c)) {
+      return c;
     }
-
-    const controller = new AbortController();
-    const parsePromise = new Promise<void>(async (resolve, reject) => {
-      controller.signal.addEventListener("abort", () => {
-        console.log("aborting", controller.signal);
-        return reject("Cancelled");
-      })
-
-
-      await parse(isNewSchema, schema, fileText, _xmlURI).then(({errorType, errorCount, diagnostics}) => {
-        switch (errorType) {
-          case ERR_VALID:
-              doSchematronValidation("XML is not valid", errorCount, diagnostics);
-            break;
-          case ERR_WELLFORM:
-            vscode.window.setStatusBarMessage('$(error) XML is not well formed.');
-            break;
-          case ERR_SCHEMA:
-            doSchematronValidation("RNG schema is incorrect.", errorCount, diagnostics);
-            break;
-          default:
-            doSchematronValidation("XML is valid.", errorCount, diagnostics);
-        }
-        resolve();
-      }).catch(() => reject());
-    })
-
-    validations.push({
-      parsePromise,
-      controller
-    })
-
-    
-  } else {
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor) {
-      return;
+    if (path.isAbsolute(c) || !workspaceFolder) {
+      return url.pathToFileURL(c).toString();
     }
+    return vscode.Uri.joinPath(workspaceFolder, c).toString();
+  });
+}
 
-    const fileText = activeEditor.document.getText();
-    const xmlURI = activeEditor.document.uri;
-    parseWithoutSchema(fileText, xmlURI.toString()).then((err) => {
-      switch (err) {
-        case ERR_WELLFORM:
-          vscode.window.setStatusBarMessage('$(error) XML is not well formed.');
-          break;
-        default:
-          vscode.window.setStatusBarMessage('$(check) XML is well formed.');
-      }
-    });
-
-  }
+async function loadCatalogs(): Promise<void> {
+  const urls = catalogURLs();
+  catalog = urls.length > 0
+    ? await XMLCatalog.load(urls, (catalogURL, err) =>
+      vscode.window.showWarningMessage(`Could not read XML catalog ${catalogURL}: ${err.message}`))
+    : undefined;
+  schemaCache.setCatalog(catalog);
 }
 
 // ACTIVATE
@@ -577,14 +471,76 @@ export function activate(context: vscode.ExtensionContext) {
   diagnosticCollection = vscode.languages.createDiagnosticCollection(validLang);
   context.subscriptions.push(diagnosticCollection);
 
+  const isValidDocument = (document: vscode.TextDocument) =>
+    document.languageId === validLang && document.uri.scheme === "file";
+  const validateOpenDocuments = (filter: (document: vscode.TextDocument) => boolean = () => true) => {
+    vscode.workspace.textDocuments
+      .filter(document => isValidDocument(document) && filter(document))
+      .forEach(document => validationScheduler.schedule(document, 0));
+  };
+
+  // VALIDATION
+  validationScheduler = new ValidationScheduler(validateDocument);
+  validationClient = new ValidationClient();
+  context.subscriptions.push(validationScheduler, validationClient);
+
+  // SCHEMAS
+  schemaCache = new SchemaCache(validationClient, context.globalStorageUri);
+  context.subscriptions.push(schemaCache);
+  // The validation worker keeps its copies of schemas only as long as the cache.
+  schemaCache.onDidDrop((stored: StoredGrammar) => validationClient.unload(stored));
+  // Revalidate the open files whose schema changed on disk.
+  schemaCache.onDidInvalidate((schemaURL: string) => {
+    validateOpenDocuments(document => {
+      const schemaInfo = locateSchema(document);
+      return !!schemaInfo && (schemaInfo.schema === schemaURL || schemaInfo.schematrons.some(s => s.url === schemaURL));
+    });
+  });
+
   // COMPLETION PROPOSALS (with possible())
   context.subscriptions.push(
     vscode.languages.registerCompletionItemProvider(
-      { scheme: 'file', language: validLang }, new SalveCompletionProvider(grammarStore), '<', ' ', '"')
+      { scheme: 'file', language: validLang }, new SalveCompletionProvider(schemaCache), '<', ' ', '"', '#')
+  );
+  // HOVER DOCUMENTATION
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(
+      { scheme: 'file', language: validLang }, new SalveHoverProvider(schemaCache))
+  );
+  // XML:ID NAVIGATION
+  const idNavigation = new XMLIdNavigationProvider();
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider({ scheme: 'file', language: validLang }, idNavigation),
+    vscode.languages.registerReferenceProvider({ scheme: 'file', language: validLang }, idNavigation),
+    vscode.languages.registerRenameProvider({ scheme: 'file', language: validLang }, idNavigation)
+  );
+  // OUTLINE
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider(
+      { scheme: 'file', language: validLang }, new XMLDocumentSymbolProvider())
+  );
+  // FOLDING AND SELECTION RANGES
+  const xmlRanges = new XMLRangeProvider();
+  context.subscriptions.push(
+    vscode.languages.registerFoldingRangeProvider({ scheme: 'file', language: validLang }, xmlRanges),
+    vscode.languages.registerSelectionRangeProvider({ scheme: 'file', language: validLang }, xmlRanges)
+  );
+  // QUICK FIXES (with possible() where the error is)
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: 'file', language: validLang }, new SalveCodeActionProvider(schemaCache, diagnosticCollection),
+      { providedCodeActionKinds: SalveCodeActionProvider.providedCodeActionKinds })
   );
   // COMMANDS
   let validate = vscode.commands.registerCommand('sxml.validate', () => {
-    doValidation();
+    const document = vscode.window.activeTextEditor?.document;
+    if (document) {
+      validationScheduler.schedule(document, 0);
+    }
+    return context;
+  });
+  let validateWs = vscode.commands.registerCommand('sxml.validateWorkspace', async () => {
+    await validateWorkspace(false);
     return context;
   });
   let suggestAttValue = vscode.commands.registerTextEditorCommand(
@@ -605,66 +561,66 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
   let wrapWithEl = vscode.commands.registerTextEditorCommand(
-    'sxml.wrapWithEl', (textEditor, edit, lineDelta: number, characterDelta: number) => {
-    const selection = textEditor?.selection;
-    if (selection) {
-      vscode.window.showInputBox({
-        value: '',
-        placeHolder: 'Wrap selection with element: write element',
-        validateInput: text => {
-          // Make sure it's an XML Name
-          if (text.match(XMLname)) {
-            return null;
-          }
-          return "Must be an XML Name";
-        }
-      }).then(t => {
-        if (t) {
-          const wrapped = `<${t}>${textEditor.document.getText(selection)}</${t}>`;
-          textEditor.edit(editBuilder => {
-            editBuilder.replace(selection, wrapped);
-          });
-        }
-      });
-    }
+    'sxml.wrapWithEl', (textEditor) => {
+    wrapWithElement(textEditor, schemaCache);
   });
 
   // EVENTS
 
   // Validate file on save
   vscode.workspace.onDidSaveTextDocument((document: vscode.TextDocument) => {
-    if (document.languageId === validLang && document.uri.scheme === "file") {
-      vscode.commands.executeCommand('sxml.validate');
+    if (isValidDocument(document)) {
+      validationScheduler.schedule(document, 0);
     }
   });
 
+  // Documents are validated once typing pauses, also in background editors.
   vscode.workspace.onDidChangeTextDocument((event: vscode.TextDocumentChangeEvent) => {
-    if (event.document.languageId === validLang && event.document.uri.scheme === "file") {
-      doValidation();
+    if (isValidDocument(event.document) && event.contentChanges.length > 0) {
+      validationScheduler.schedule(event.document);
+    }
+  });
+
+  vscode.workspace.onDidOpenTextDocument((document: vscode.TextDocument) => {
+    if (isValidDocument(document)) {
+      validationScheduler.schedule(document, 0);
     }
   });
 
   // Clear status after closing file.
-  vscode.workspace.onDidCloseTextDocument(() => {
+  vscode.workspace.onDidCloseTextDocument((document: vscode.TextDocument) => {
+    validationScheduler.cancel(document);
+    validationClient.forget(document.uri.toString());
     vscode.window.setStatusBarMessage('');
   });
 
   // Clear status after changing file or trigger validation if new file is XML.
   vscode.window.onDidChangeActiveTextEditor((editor: vscode.TextEditor | undefined) => {
     vscode.window.setStatusBarMessage('');
-    if (editor?.document.languageId === validLang && editor?.document.uri.scheme === "file") {
-      doValidation();
+    if (editor && isValidDocument(editor.document)) {
+      validationScheduler.schedule(editor.document, 0);
     }
   });
 
-  context.subscriptions.push(validate, suggestAttValue, translateCursor, wrapWithEl);
-  
-  // Kick off on activation if the current file is XML
-  if (activeEditor) {
-    if (activeEditor.document.languageId === validLang) {
-      doValidation();
+  vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+    if (event.affectsConfiguration("sxml.validateWorkspaceInBackground")) {
+      watchWorkspace(context);
     }
-  }
+    if (event.affectsConfiguration("sxml.catalogs")) {
+      loadCatalogs().then(() => validateOpenDocuments());
+    }
+  });
+
+  context.subscriptions.push(validate, validateWs, suggestAttValue, translateCursor, wrapWithEl);
+  
+  // Load catalogs before kicking off, so that schemas get mapped to local copies.
+  loadCatalogs().then(() => {
+    // Kick off on activation for the open XML files
+    validateOpenDocuments();
+
+    // Validate the rest of the workspace if requested
+    watchWorkspace(context);
+  });
 }
 
 // this method is called when the extension is deactivated
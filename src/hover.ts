@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { BaseName, DefaultNameResolver, Grammar, Name } from 'salve-annos';
+import { Element } from 'salve-annos/lib/salve/patterns';
+import { SaxesParser } from 'saxes';
+import { contentModel, elementsByName } from './contentModel';
+import { locateSchemaForText } from './extension';
+import SchemaCache from './schemaCache';
+import { fireXMLEvents, Span } from './xmlEvents';
+
+// Content models of large schemas can list hundreds of elements.
+const MAX_NAMES = 40;
+
+// What is under the cursor, as the schema sees it.
+interface HoverTarget {
+  kind: 'element' | 'attribute' | 'value';
+  span: Span;
+  name?: BaseName;
+  element?: Element;
+  value?: string;
+  documentation?: string;
+  // Allowed values of an attribute.
+  values: string[];
+  nameResolver: DefaultNameResolver;
+}
+
+class ReplayDone {}
+
+function spanContains(span: Span, offset: number): boolean {
+  return span[0] <= offset && offset <= span[1];
+}
+
+/**
+ * Validates the document up to the cursor and looks up the start tag,
+ * attribute name or attribute value there in what the schema allowed at that
+ * point. For end tags, looks up their start tag.
+ */
+function hoverTarget(tree: Grammar, xmlSource: string, offset: number): HoverTarget | void {
+  const nameResolver = new DefaultNameResolver();
+  const walker = tree.newWalker(nameResolver);
+  const parser = new SaxesParser({ xmlns: true, position: true });
+  const elements = elementsByName(tree);
+  const startTags: Span[] = [];
+  let target: HoverTarget | undefined;
+  let startTag: Span | undefined;
+  try {
+    fireXMLEvents(parser, xmlSource, nameResolver, {
+      fireEvent: (name: string, args: string[], span: Span) => {
+        if (span[0] > offset) {
+          throw new ReplayDone();
+        }
+        if (name === 'enterStartTag') {
+          startTags.push(span);
+        } else if (name === 'endTag') {
+          const start = startTags.pop();
+          if (spanContains(span, offset) && start && start[0] !== span[0]) {
+            startTag = start;
+            throw new ReplayDone();
+          }
+        }
+        if (spanContains(span, offset) && ['enterStartTag', 'attributeName', 'attributeValue'].includes(name)) {
+          let documentation: string | undefined;
+          let namePattern: BaseName | undefined;
+          for (const entry of walker.possible()) {
+            if (entry.name === 'attributeValue' && entry.value === args[0]) {
+              documentation = entry.documentation;
+            } else if ((entry.name === 'enterStartTag' || entry.name === 'attributeName')
+              && entry.name === name && entry.namePattern.match(args[0], args[1])) {
+              namePattern = entry.namePattern;
+            }
+          }
+          if (name === 'attributeValue') {
+            target = {kind: 'value', span, value: args[0], documentation, values: [], nameResolver};
+          } else {
+            target = {
+              kind: name === 'enterStartTag' ? 'element' : 'attribute',
+              span,
+              name: namePattern,
+              element: namePattern && elements.get(namePattern),
+              documentation: (namePattern as Name)?.documentation,
+              values: [],
+              nameResolver,
+            };
+            if (name === 'attributeName') {
+              walker.fireEvent(name, args);
+              for (const entry of walker.possible()) {
+                if (entry.name === 'attributeValue' && typeof entry.value === 'string' && !target.values.includes(entry.value)) {
+                  target.values.push(entry.value);
+                }
+              }
+            }
+          }
+          throw new ReplayDone();
+        }
+        walker.fireEvent(name, args);
+      },
+    });
+  } catch(err) {
+    if (!(err instanceof ReplayDone)) {
+      console.log("Could not parse document for hover", (err as Error).message);
+    }
+  }
+  if (startTag) {
+    return hoverTarget(tree, xmlSource, startTag[0]);
+  }
+  return target;
+}
+
+// Writes a name with a prefix in scope, or with its namespace.
+function displayName(name: BaseName, nameResolver: DefaultNameResolver): string {
+  if (name instanceof Name) {
+    const qname = nameResolver.unresolveName(name.ns, name.name);
+    return qname !== undefined ? `\`${qname}\`` : `\`${name.name}\` (${name.ns})`;
+  }
+  return `\`${name.toString()}\``;
+}
+
+function nameList(names: Map<BaseName, boolean>, nameResolver: DefaultNameResolver): string {
+  const list = Array.from(names.entries())
+    .map(([name, required]) => displayName(name, nameResolver) + (required ? ' (required)' : ''))
+    .sort();
+  const more = list.length > MAX_NAMES ? `, and ${list.length - MAX_NAMES} more` : '';
+  return list.slice(0, MAX_NAMES).join(', ') + more;
+}
+
+function hoverMarkdown(target: HoverTarget, xmlSource: string): vscode.MarkdownString {
+  const markdown = new vscode.MarkdownString();
+  const written = xmlSource.slice(target.span[0], target.span[1]);
+  switch (target.kind) {
+    case 'element':
+      markdown.appendMarkdown(`**Element** \`<${written}>\``);
+      break;
+    case 'attribute':
+      markdown.appendMarkdown(`**Attribute** \`${written}\``);
+      break;
+    case 'value':
+      markdown.appendMarkdown(`**Value** \`${target.value}\``);
+      break;
+  }
+  if (target.name instanceof Name && target.name.ns) {
+    markdown.appendMarkdown(` (${target.name.ns})`);
+  }
+  if (target.documentation) {
+    markdown.appendMarkdown('\n\n');
+    markdown.appendText(target.documentation);
+  }
+  if (target.element) {
+    const model = contentModel(target.element);
+    if (model.attributes.size) {
+      markdown.appendMarkdown(`\n\n**Attributes:** ${nameList(model.attributes, target.nameResolver)}`);
+    }
+    const content = model.children.size ? [nameList(model.children, target.nameResolver)] : [];
+    if (model.text) {
+      content.push('text');
+    }
+    markdown.appendMarkdown(`\n\n**Content:** ${content.length ? content.join('; ') : 'empty'}`);
+  }
+  if (target.values.length) {
+    markdown.appendMarkdown(`\n\n**Values:** ${target.values.map(v => `\`${v}\``).join(', ')}`);
+  }
+  return markdown;
+}
+
+/**
+ * Shows the schema documentation of the element, attribute or attribute value
+ * under the cursor, with the content model of elements.
+ */
+class SalveHoverProvider implements vscode.HoverProvider {
+  cache: SchemaCache;
+  constructor(cache: SchemaCache) {
+    this.cache = cache;
+  }
+
+  public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const xmlSource = document.getText();
+    const schemaInfo = locateSchemaForText(xmlSource, document.uri);
+    if (!schemaInfo || !schemaInfo.schema || !this.cache.has(schemaInfo.schema)) {
+      // Don't compile schemas before validation.
+      return;
+    }
+    const tree = (await this.cache.get(schemaInfo.schema))?.grammar;
+    if (!tree) {
+      return;
+    }
+    const target = hoverTarget(tree, xmlSource, document.offsetAt(position));
+    if (!target || (!target.name && target.kind !== 'value') || (target.kind === 'value' && !target.documentation)) {
+      return;
+    }
+    const range = new vscode.Range(document.positionAt(target.span[0]), document.positionAt(target.span[1]));
+    return new vscode.Hover(hoverMarkdown(target, xmlSource), range);
+  }
+}
+
+export default SalveHoverProvider;
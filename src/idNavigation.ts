@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { readFileText, workspaceGlob } from './extension';
+import { XMLPointer, xmlIds, xmlPointers } from './ids';
+import { SourceLines } from './sourceSpans';
+
+// Attributes whose values point to xml:ids, from settings.
+export function pointerAttributes(): string[] {
+  return vscode.workspace.getConfiguration("sxml").get("pointerAttributes") ?? [];
+}
+
+// The document a pointer points into.
+function pointerTarget(pointer: XMLPointer, xmlURI: vscode.Uri): vscode.Uri {
+  if (!pointer.file) {
+    return xmlURI;
+  }
+  return vscode.Uri.parse(new URL(pointer.file, xmlURI.toString()).toString());
+}
+
+function location(uri: vscode.Uri, lines: SourceLines, start: number, end: number): vscode.Location {
+  const range = lines.range(start, end);
+  return new vscode.Location(uri, new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character));
+}
+
+// Where an xml:id is declared and pointed to, with the offsets of the id.
+interface IdOccurrence {
+  uri: vscode.Uri;
+  // Lines of the file, shared by its occurrences.
+  lines: SourceLines;
+  start: number;
+  end: number;
+  declaration: boolean;
+  // Offsets of the whole pointer, for pointers.
+  pointer?: [number, number];
+}
+
+// The xml:id under the cursor, either on its declaration or on a pointer to it.
+function idAt(document: vscode.TextDocument, position: vscode.Position):
+  {uri: vscode.Uri, id: string, start: number, end: number} | undefined {
+  const offset = document.offsetAt(position);
+  const text = document.getText();
+  const declared = xmlIds(text).find(({start, end}) => start <= offset && offset <= end);
+  if (declared) {
+    return {uri: document.uri, id: declared.id, start: declared.start, end: declared.end};
+  }
+  const pointer = xmlPointers(text, pointerAttributes()).find(p => p.start <= offset && offset <= p.end);
+  if (pointer) {
+    return {uri: pointerTarget(pointer, document.uri), id: pointer.id, start: pointer.idStart, end: pointer.idEnd};
+  }
+}
+
+/**
+ * Finds the declarations of an xml:id and the pointers to it in the documents
+ * of the workspace and the given document.
+ */
+async function idOccurrences(document: vscode.TextDocument, targetURI: vscode.Uri, targetId: string,
+  token: vscode.CancellationToken): Promise<IdOccurrence[]> {
+  const occurrences: IdOccurrence[] = [];
+  const files = await vscode.workspace.findFiles(workspaceGlob());
+  if (!files.some(file => file.toString() === document.uri.toString())) {
+    files.push(document.uri);
+  }
+  for (const file of files) {
+    if (token.isCancellationRequested) {
+      break;
+    }
+    let fileText: string;
+    try {
+      fileText = await readFileText(file);
+    } catch(err) {
+      continue;
+    }
+    const lines = new SourceLines(fileText);
+    if (file.toString() === targetURI.toString()) {
+      for (const id of xmlIds(fileText).filter(({id}) => id === targetId)) {
+        occurrences.push({uri: file, lines, start: id.start, end: id.end, declaration: true});
+      }
+    }
+    for (const pointer of xmlPointers(fileText, pointerAttributes())) {
+      if (pointer.id === targetId && pointerTarget(pointer, file).toString() === targetURI.toString()) {
+        occurrences.push({
+          uri: file,
+          lines,
+          start: pointer.idStart,
+          end: pointer.idEnd,
+          declaration: false,
+          pointer: [pointer.start, pointer.end],
+        });
+      }
+    }
+  }
+  return occurrences;
+}
+
+// xml:ids must be NCNames.
+const ncNameRe = /^[\p{L}_][\p{L}\p{N}\p{M}_.\-\u00B7]*$/u;
+
+/**
+ * Goes from pointers like "#p1" or "persons.xml#p1" to the element with that
+ * xml:id, lists the pointers to an xml:id across the workspace, and renames
+ * an xml:id together with the pointers to it.
+ */
+class XMLIdNavigationProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.RenameProvider {
+  public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+    const offset = document.offsetAt(position);
+    const pointer = xmlPointers(document.getText(), pointerAttributes())
+      .find(p => p.start <= offset && offset <= p.end);
+    if (!pointer) {
+      return;
+    }
+    const target = pointerTarget(pointer, document.uri);
+    try {
+      const text = target.toString() === document.uri.toString() ? document.getText() : await readFileText(target);
+      const id = xmlIds(text).find(({id}) => id === pointer.id);
+      if (id) {
+        return location(target, new SourceLines(text), id.start, id.end);
+      }
+    } catch(err) {
+      console.log(`Could not read ${target.toString()}`, (err as Error).message);
+    }
+  }
+
+  public async provideReferences(document: vscode.TextDocument, position: vscode.Position,
+    context: vscode.ReferenceContext, token: vscode.CancellationToken): Promise<vscode.Location[]> {
+    const target = idAt(document, position);
+    if (!target) {
+      return [];
+    }
+    return (await idOccurrences(document, target.uri, target.id, token))
+      .filter(occurrence => context.includeDeclaration || !occurrence.declaration)
+      .map(({uri, lines, start, end, pointer}) => pointer ? location(uri, lines, pointer[0], pointer[1]) : location(uri, lines, start, end));
+  }
+
+  public prepareRename(document: vscode.TextDocument, position: vscode.Position): {range: vscode.Range, placeholder: string} {
+    const target = idAt(document, position);
+    if (!target) {
+      throw new Error("Only xml:ids and pointers to them can be renamed");
+    }
+    return {range: new vscode.Range(document.positionAt(target.start), document.positionAt(target.end)), placeholder: target.id};
+  }
+
+  public async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string,
+    token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit | undefined> {
+    const target = idAt(document, position);
+    if (!target) {
+      return;
+    }
+    if (!ncNameRe.test(newName)) {
+      throw new Error(`"${newName}" is not a valid xml:id`);
+    }
+    const targetText = target.uri.toString() === document.uri.toString() ? document.getText() : await readFileText(target.uri);
+    if (newName !== target.id && xmlIds(targetText).some(({id}) => id === newName)) {
+      throw new Error(`xml:id "${newName}" already exists`);
+    }
+    const edit = new vscode.WorkspaceEdit();
+    for (const {uri, lines, start, end} of await idOccurrences(document, target.uri, target.id, token)) {
+      edit.replace(uri, location(uri, lines, start, end).range, newName);
+    }
+    return edit;
+  }
+}
+
+export default XMLIdNavigationProvider;
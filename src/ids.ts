@@ -0,0 +1,199 @@
+import { attributeSpans, SourceLines } from './sourceSpans';
+import { Problem, Severity } from './validationEngine';
+
+const SOURCE = 'xml:id';
+
+// An xml:id in a document, with the offsets of its value.
+export interface XMLId {
+  id: string;
+  // Qualified name of the element it identifies.
+  element: string;
+  start: number;
+  end: number;
+}
+
+// A pointer to an xml:id, with the offsets of the whole pointer and of the id.
+export interface XMLPointer {
+  // Relative URL of the document with the id, empty for the same document.
+  file: string;
+  id: string;
+  attribute: string;
+  start: number;
+  end: number;
+  idStart: number;
+  idEnd: number;
+}
+
+// A TEI <prefixDef>, expanding private URIs like "psn:p1" into pointers.
+export interface PrefixDef {
+  ident: string;
+  matchPattern: RegExp;
+  replacementPattern: string;
+}
+
+// Start tags, with comments and CDATA sections matched first so that the tags
+// in them can be skipped.
+const markupRe = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<([^\s\/>!?]+)(?:[^>"']|"[^"]*"|'[^']*')*>?/g;
+
+// Calls back with the name and offsets of each start tag.
+function scanStartTags(xmlSource: string, callback: (name: string, start: number, end: number) => void): void {
+  markupRe.lastIndex = 0;
+  let tag: RegExpExecArray | null;
+  while ((tag = markupRe.exec(xmlSource))) {
+    if (tag[1]) {
+      callback(tag[1], tag.index, tag.index + tag[0].length);
+    }
+  }
+}
+
+/**
+ * Lists the xml:id attributes of a document. This doesn't need the document to
+ * be well-formed, so that it can be used while typing.
+ */
+export function xmlIds(xmlSource: string): XMLId[] {
+  const ids: XMLId[] = [];
+  scanStartTags(xmlSource, (name, start, end) => {
+    const span = attributeSpans(xmlSource, start, end, name).get('xml:id');
+    if (span) {
+      ids.push({
+        id: xmlSource.slice(span.valueStart, span.valueEnd).trim(),
+        element: name,
+        start: span.valueStart,
+        end: span.valueEnd,
+      });
+    }
+  });
+  return ids;
+}
+
+/**
+ * Lists the TEI <prefixDef>s of a document, skipping those with patterns that
+ * can't be used.
+ */
+export function prefixDefs(xmlSource: string): PrefixDef[] {
+  const defs: PrefixDef[] = [];
+  scanStartTags(xmlSource, (name, start, end) => {
+    if (name !== 'prefixDef' && !name.endsWith(':prefixDef')) {
+      return;
+    }
+    const spans = attributeSpans(xmlSource, start, end, name);
+    const value = (attribute: string) => {
+      const span = spans.get(attribute);
+      return span ? xmlSource.slice(span.valueStart, span.valueEnd) : undefined;
+    };
+    const ident = value('ident');
+    const matchPattern = value('matchPattern');
+    const replacementPattern = value('replacementPattern');
+    if (ident && matchPattern && replacementPattern !== undefined) {
+      try {
+        defs.push({ident, matchPattern: new RegExp(`^(?:${matchPattern})$`), replacementPattern});
+      } catch(err) {
+        console.log(`Could not use prefixDef "${ident}"`, (err as Error).message);
+      }
+    }
+  });
+  return defs;
+}
+
+/**
+ * Lists the pointers to xml:ids, like "#p1" or "persons.xml#p1", in the values
+ * of the given attributes. Pointers to other documents must be relative.
+ * Private URIs declared with <prefixDef> in the document, like "psn:p1", are
+ * expanded when they point to an xml:id and contain it.
+ */
+export function xmlPointers(xmlSource: string, attributes: string[]): XMLPointer[] {
+  const pointers: XMLPointer[] = [];
+  const defs = prefixDefs(xmlSource);
+  scanStartTags(xmlSource, (name, start, end) => {
+    attributeSpans(xmlSource, start, end, name).forEach((span, attribute) => {
+      if (!attributes.includes(attribute)) {
+        return;
+      }
+      const tokenRe = /\S+/g;
+      const value = xmlSource.slice(span.valueStart, span.valueEnd);
+      let token: RegExpExecArray | null;
+      while ((token = tokenRe.exec(value))) {
+        const tokenStart = span.valueStart + token.index;
+        const tokenEnd = tokenStart + token[0].length;
+        const pointer = token[0].match(/^([^#:]*)#(.+)$/);
+        if (pointer) {
+          pointers.push({
+            file: pointer[1],
+            id: pointer[2],
+            attribute,
+            start: tokenStart,
+            end: tokenEnd,
+            idStart: tokenStart + pointer[1].length + 1,
+            idEnd: tokenEnd,
+          });
+          continue;
+        }
+        const colon = token[0].indexOf(':');
+        const def = defs.find(d => d.ident === token?.[0].slice(0, colon));
+        const rest = token[0].slice(colon + 1);
+        if (colon > 0 && def && def.matchPattern.test(rest)) {
+          const expanded = rest.replace(def.matchPattern, def.replacementPattern).match(/^([^#:]*)#(.+)$/);
+          const idIndex = expanded ? rest.lastIndexOf(expanded[2]) : -1;
+          if (expanded && idIndex !== -1) {
+            const idStart = tokenStart + colon + 1 + idIndex;
+            pointers.push({
+              file: expanded[1],
+              id: expanded[2],
+              attribute,
+              start: tokenStart,
+              end: tokenEnd,
+              idStart,
+              idEnd: idStart + expanded[2].length,
+            });
+          }
+        }
+      }
+    });
+  });
+  return pointers;
+}
+
+/**
+ * Checks that xml:ids are unique and that pointers point to existing ones,
+ * in the document or in the documents they name, read with readText. Duplicates
+ * of the checkedIds were already reported by validation, so they're left out.
+ * This doesn't need VS Code, so that it runs in the validation worker.
+ */
+export async function idProblems(xmlSource: string, xmlURL: string, attributes: string[],
+  readText: (url: string) => Promise<string>, checkedIds: string[] = []): Promise<Problem[]> {
+  const problems: Problem[] = [];
+  const lines = new SourceLines(xmlSource);
+  const problem = (start: number, end: number, message: string, severity: Severity) => {
+    problems.push({message, severity, range: lines.range(start, end), source: SOURCE});
+  };
+
+  const ids = xmlIds(xmlSource);
+  const counts = new Map<string, number>();
+  ids.forEach(({id}) => counts.set(id, (counts.get(id) ?? 0) + 1));
+  for (const {id, start, end} of ids) {
+    if ((counts.get(id) as number) > 1 && !checkedIds.includes(id)) {
+      problem(start, end, `Duplicate xml:id "${id}"`, 'error');
+    }
+  }
+
+  // Ids of the other documents pointed to, or undefined if they can't be read.
+  const documentIds = new Map<string, Set<string> | undefined>([[xmlURL, new Set(counts.keys())]]);
+  for (const pointer of xmlPointers(xmlSource, attributes)) {
+    const target = pointer.file ? new URL(pointer.file, xmlURL).toString() : xmlURL;
+    if (!documentIds.has(target)) {
+      try {
+        documentIds.set(target, new Set(xmlIds(await readText(target)).map(({id}) => id)));
+      } catch(err) {
+        documentIds.set(target, undefined);
+      }
+    }
+    const targetIds = documentIds.get(target);
+    if (!targetIds) {
+      problem(pointer.start, pointer.end, `Cannot read "${pointer.file}"`, 'warning');
+    } else if (!targetIds.has(pointer.id)) {
+      const where = pointer.file ? ` in "${pointer.file}"` : '';
+      problem(pointer.idStart, pointer.idEnd, `No element with xml:id "${pointer.id}"${where}`, 'warning');
+    }
+  }
+  return problems;
+}
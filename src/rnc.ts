@@ -0,0 +1,749 @@
+import { Resource, ResourceLoader, makeResourceLoader } from 'salve-annos';
+
+// Converts RELAX NG compact syntax to the equivalent XML syntax, following
+// https://relaxng.org/compact-20021121.html so that salve and the Schematron
+// extraction can work with .rnc schemas.
+
+const RNG_NS = 'http://relaxng.org/ns/structure/1.0';
+const ANNOTATIONS_NS = 'http://relaxng.org/ns/compatibility/annotations/1.0';
+const XSD_NS = 'http://www.w3.org/2001/XMLSchema-datatypes';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+const KEYWORDS = new Set([
+  'attribute', 'default', 'datatypes', 'div', 'element', 'empty', 'external',
+  'grammar', 'include', 'inherit', 'list', 'mixed', 'namespace', 'notAllowed',
+  'parent', 'start', 'string', 'text', 'token',
+]);
+
+type TokenType = 'identifier' | 'keyword' | 'cname' | 'nsname' | 'literal' | 'doc' | 'op' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+interface XMLNode {
+  name: string;
+  attributes: [string, string][];
+  children: (XMLNode | string)[];
+}
+
+interface Annotations {
+  attributes: [string, string][];
+  elements: XMLNode[];
+}
+
+function node(name: string, attributes: [string, string][] = [], children: (XMLNode | string)[] = []): XMLNode {
+  return {name, attributes, children};
+}
+
+const nameStart = '[A-Za-z_\\u00C0-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD]';
+const nameChar = `(?:${nameStart}|[-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040])`;
+const ncNameRe = new RegExp(`${nameStart}${nameChar}*`, 'y');
+
+function tokenize(source: string): Token[] {
+  // Escapes like \x{41} can appear anywhere.
+  const text = source.replace(/\\x+\{([0-9A-Fa-f]+)\}/g, (m, hex) => String.fromCodePoint(parseInt(hex, 16)));
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const error = (message: string): Error => new Error(`${message} at line ${line}, column ${pos - lineStart + 1}`);
+  const push = (type: TokenType, value: string, start: number) => {
+    tokens.push({type, value, line, column: start - lineStart + 1});
+  };
+  const matchName = (at: number): string | undefined => {
+    ncNameRe.lastIndex = at;
+    const m = ncNameRe.exec(text);
+    return m ? m[0] : undefined;
+  };
+
+  while (pos < text.length) {
+    const c = text[pos];
+    if (c === '\n') {
+      pos++;
+      line++;
+      lineStart = pos;
+    } else if (/\s/.test(c)) {
+      pos++;
+    } else if (c === '#') {
+      let end = text.indexOf('\n', pos);
+      if (end === -1) {
+        end = text.length;
+      }
+      if (text[pos + 1] === '#') {
+        push('doc', text.slice(pos, end).replace(/^#+ ?/, '').replace(/\r$/, ''), pos);
+      }
+      pos = end;
+    } else if (c === '"' || c === "'") {
+      const start = pos;
+      const triple = text.startsWith(c.repeat(3), pos);
+      const delimiter = triple ? c.repeat(3) : c;
+      const end = text.indexOf(delimiter, pos + delimiter.length);
+      if (end === -1) {
+        throw error('Unterminated literal');
+      }
+      const value = text.slice(pos + delimiter.length, end);
+      if (!triple && value.includes('\n')) {
+        throw error('Newline in literal');
+      }
+      push('literal', value, start);
+      for (const ch of value) {
+        if (ch === '\n') {
+          line++;
+        }
+      }
+      pos = end + delimiter.length;
+      if (value.includes('\n')) {
+        lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+      }
+    } else if (text.startsWith('|=', pos) || text.startsWith('&=', pos) || text.startsWith('>>', pos)) {
+      push('op', text.slice(pos, pos + 2), pos);
+      pos += 2;
+    } else if ('={}()[],|&?*+-~'.includes(c)) {
+      push('op', c, pos);
+      pos++;
+    } else {
+      const start = pos;
+      const escaped = c === '\\';
+      const name = matchName(escaped ? pos + 1 : pos);
+      if (!name) {
+        throw error(`Unexpected character "${c}"`);
+      }
+      pos += name.length + (escaped ? 1 : 0);
+      if (!escaped && text[pos] === ':' && text[pos + 1] === '*') {
+        push('nsname', name, start);
+        pos += 2;
+      } else if (!escaped && text[pos] === ':' && matchName(pos + 1)) {
+        const local = matchName(pos + 1) as string;
+        push('cname', `${name}:${local}`, start);
+        pos += local.length + 1;
+      } else {
+        push(!escaped && KEYWORDS.has(name) ? 'keyword' : 'identifier', name, start);
+      }
+    }
+  }
+  tokens.push({type: 'eof', value: '', line, column: pos - lineStart + 1});
+  return tokens;
+}
+
+class CompactSyntaxParser {
+  private readonly tokens: Token[];
+  private pos = 0;
+  // Prefix to namespace URI. The default namespace is stored under ''.
+  private readonly namespaces: Map<string, string | undefined> = new Map([['xml', XML_NS]]);
+  private readonly datatypes: Map<string, string> = new Map([['xsd', XSD_NS]]);
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  public parse(): string {
+    this.parseDecls();
+    let root: XMLNode;
+    if (this.startsGrammar()) {
+      root = node('grammar', [], this.parseGrammarContent('eof'));
+    } else {
+      const [pattern, ...following] = this.parsePattern();
+      root = pattern;
+      root.children.push(...following);
+    }
+    this.expect('eof');
+
+    // Declare namespaces on the root so prefixed names can be used throughout.
+    const declarations: [string, string][] = [['xmlns', RNG_NS]];
+    for (const [prefix, uri] of this.namespaces) {
+      // Prefixes can't be bound to no namespace; names using them get an ns attribute.
+      if (prefix !== '' && prefix !== 'xml' && uri) {
+        declarations.push([`xmlns:${prefix}`, uri]);
+      }
+    }
+    const defaultNs = this.namespaces.get('');
+    if (defaultNs !== undefined) {
+      declarations.push(['ns', defaultNs]);
+    }
+    root.attributes = declarations.concat(root.attributes);
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${serialize(root)}\n`;
+  }
+
+  // TOKENS
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.pos++;
+    }
+    return token;
+  }
+
+  private is(type: TokenType, value?: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  private isOp(value: string, offset = 0): boolean {
+    return this.is('op', value, offset);
+  }
+
+  private isKeyword(value: string, offset = 0): boolean {
+    return this.is('keyword', value, offset);
+  }
+
+  private error(message: string, token = this.peek()): Error {
+    return new Error(`${message} at line ${token.line}, column ${token.column}`);
+  }
+
+  private expect(type: TokenType, value?: string): Token {
+    if (!this.is(type, value)) {
+      const token = this.peek();
+      throw this.error(`Expected ${value ?? type} but found ${token.type === 'eof' ? 'end of file' : `"${token.value}"`}`);
+    }
+    return this.next();
+  }
+
+  private identifierOrKeyword(): string {
+    if (this.is('identifier') || this.is('keyword')) {
+      return this.next().value;
+    }
+    throw this.error('Expected an identifier');
+  }
+
+  private literal(): string {
+    let value = this.expect('literal').value;
+    while (this.isOp('~')) {
+      this.next();
+      value += this.expect('literal').value;
+    }
+    return value;
+  }
+
+  // DECLARATIONS
+
+  private parseDecls(): void {
+    for (;;) {
+      this.skipDeclDocs();
+      if (this.isKeyword('namespace')) {
+        this.next();
+        const prefix = this.identifierOrKeyword();
+        this.expect('op', '=');
+        this.namespaces.set(prefix, this.namespaceURI());
+      } else if (this.isKeyword('default') && this.isKeyword('namespace', 1)) {
+        this.next();
+        this.next();
+        const prefix = this.isOp('=') ? undefined : this.identifierOrKeyword();
+        this.expect('op', '=');
+        const uri = this.namespaceURI();
+        this.namespaces.set('', uri);
+        if (prefix) {
+          this.namespaces.set(prefix, uri);
+        }
+      } else if (this.isKeyword('datatypes')) {
+        this.next();
+        const prefix = this.identifierOrKeyword();
+        this.expect('op', '=');
+        this.datatypes.set(prefix, this.literal());
+      } else {
+        return;
+      }
+    }
+  }
+
+  // Returns undefined for "inherit".
+  private namespaceURI(): string | undefined {
+    if (this.isKeyword('inherit')) {
+      this.next();
+      return;
+    }
+    return this.literal();
+  }
+
+  // Documentation before declarations has nowhere to go.
+  private skipDeclDocs(): void {
+    let offset = 0;
+    while (this.is('doc', undefined, offset)) {
+      offset++;
+    }
+    if (this.isKeyword('namespace', offset) || this.isKeyword('default', offset) || this.isKeyword('datatypes', offset)) {
+      this.pos += offset;
+    }
+  }
+
+  // Whether the top level is grammar content rather than a single pattern.
+  private startsGrammar(): boolean {
+    let offset = 0;
+    while (this.is('doc', undefined, offset)) {
+      offset++;
+    }
+    if (this.isOp('[', offset)) {
+      // Skip leading annotations.
+      let depth = 0;
+      do {
+        if (this.isOp('[', offset)) {
+          depth++;
+        } else if (this.isOp(']', offset)) {
+          depth--;
+        } else if (this.is('eof', undefined, offset)) {
+          return false;
+        }
+        offset++;
+      } while (depth > 0);
+    }
+    const token = this.peek(offset);
+    if (token.type === 'eof') {
+      return true;
+    }
+    if (token.type === 'keyword') {
+      return ['start', 'div', 'include'].includes(token.value);
+    }
+    if (token.type === 'identifier') {
+      return this.isOp('=', offset + 1) || this.isOp('|=', offset + 1) || this.isOp('&=', offset + 1);
+    }
+    return token.type === 'cname' && this.isOp('[', offset + 1);
+  }
+
+  // ANNOTATIONS
+
+  private parseLeadingAnnotations(): Annotations {
+    const annotations: Annotations = {attributes: [], elements: []};
+    const docs: string[] = [];
+    while (this.is('doc')) {
+      docs.push(this.next().value);
+    }
+    if (docs.length > 0) {
+      annotations.elements.push(node('a:documentation', [['xmlns:a', ANNOTATIONS_NS]], [docs.join('\n')]));
+    }
+    if (this.isOp('[')) {
+      this.next();
+      const content = this.parseAnnotationContent(true);
+      annotations.attributes.push(...content.attributes);
+      annotations.elements.push(...content.elements);
+      this.expect('op', ']');
+    }
+    return annotations;
+  }
+
+  // Content between [ and ]: attributes first, then elements and text.
+  private parseAnnotationContent(foreignOnly: boolean): {attributes: [string, string][], elements: XMLNode[], children: (XMLNode | string)[]} {
+    const attributes: [string, string][] = [];
+    const children: (XMLNode | string)[] = [];
+    for (;;) {
+      if (this.is('literal')) {
+        children.push(this.literal());
+        continue;
+      }
+      const isName = this.is('cname') || this.is('identifier') || this.is('keyword');
+      if (!isName) {
+        break;
+      }
+      const name = this.next();
+      if (this.isOp('=')) {
+        this.next();
+        if (foreignOnly && name.type !== 'cname') {
+          throw this.error('Annotation attributes must have a prefix', name);
+        }
+        attributes.push([name.value, this.literal()]);
+      } else if (this.isOp('[')) {
+        children.push(this.parseAnnotationElement(name));
+      } else {
+        throw this.error('Expected "=" or "["');
+      }
+    }
+    return {attributes, elements: children.filter((c): c is XMLNode => typeof c !== 'string'), children};
+  }
+
+  private parseAnnotationElement(name: Token): XMLNode {
+    this.expect('op', '[');
+    const content = this.parseAnnotationContent(false);
+    this.expect('op', ']');
+    const attributes = content.attributes;
+    if (name.type !== 'cname') {
+      // Unprefixed names in annotations are in no namespace.
+      attributes.unshift(['xmlns', '']);
+    }
+    return node(name.value, attributes, content.children);
+  }
+
+  private applyAnnotations(target: XMLNode, annotations: Annotations): XMLNode {
+    target.attributes.push(...annotations.attributes);
+    target.children.unshift(...annotations.elements);
+    return target;
+  }
+
+  // Elements with text content (value, param and name) get annotation
+  // elements as preceding siblings instead of children.
+  private applyTextAnnotations(target: XMLNode, annotations: Annotations): XMLNode[] {
+    target.attributes.push(...annotations.attributes);
+    return [...annotations.elements, target];
+  }
+
+  private parseFollowAnnotations(): XMLNode[] {
+    const elements: XMLNode[] = [];
+    while (this.isOp('>>')) {
+      this.next();
+      const name = this.next();
+      if (name.type !== 'cname' && name.type !== 'identifier' && name.type !== 'keyword') {
+        throw this.error('Expected an annotation element', name);
+      }
+      elements.push(this.parseAnnotationElement(name));
+    }
+    return elements;
+  }
+
+  // GRAMMAR
+
+  private parseGrammarContent(end: 'eof' | '}'): XMLNode[] {
+    const content: XMLNode[] = [];
+    const atEnd = () => end === 'eof' ? this.is('eof') : this.isOp('}');
+    while (!atEnd()) {
+      let offset = 0;
+      while (this.is('doc', undefined, offset)) {
+        offset++;
+      }
+      const bracketed = this.isOp('[', offset);
+      const annotations = this.parseLeadingAnnotations();
+      const token = this.peek();
+      if (token.type === 'keyword' && token.value === 'start') {
+        this.next();
+        content.push(this.applyAnnotations(this.parseDefinition('start', []), annotations));
+      } else if (token.type === 'identifier') {
+        this.next();
+        content.push(this.applyAnnotations(this.parseDefinition('define', [['name', token.value]]), annotations));
+      } else if (token.type === 'keyword' && token.value === 'div') {
+        this.next();
+        this.expect('op', '{');
+        const div = node('div', [], this.parseGrammarContent('}'));
+        this.expect('op', '}');
+        content.push(this.applyAnnotations(div, annotations));
+      } else if (token.type === 'keyword' && token.value === 'include') {
+        this.next();
+        const include = node('include', [['href', this.literal()]]);
+        this.parseInherit(include);
+        if (this.isOp('{')) {
+          this.next();
+          include.children.push(...this.parseGrammarContent('}'));
+          this.expect('op', '}');
+        }
+        content.push(this.applyAnnotations(include, annotations));
+      } else if (token.type === 'cname' && this.isOp('[', 1)) {
+        this.next();
+        content.push(this.parseAnnotationElement(token));
+      } else if (atEnd() && !bracketed) {
+        // Trailing documentation
+        break;
+      } else if (atEnd()) {
+        throw this.error('Expected a definition after the annotation');
+      } else {
+        throw this.error(`Unexpected "${token.value}" in grammar`);
+      }
+    }
+    return content;
+  }
+
+  private parseDefinition(name: string, attributes: [string, string][]): XMLNode {
+    const op = this.next();
+    if (op.type !== 'op' || !['=', '|=', '&='].includes(op.value)) {
+      throw this.error('Expected "=", "|=" or "&="', op);
+    }
+    if (op.value === '|=') {
+      attributes.push(['combine', 'choice']);
+    } else if (op.value === '&=') {
+      attributes.push(['combine', 'interleave']);
+    }
+    return node(name, attributes, this.parsePattern());
+  }
+
+  private parseInherit(target: XMLNode): void {
+    if (this.isKeyword('inherit')) {
+      this.next();
+      this.expect('op', '=');
+      const prefix = this.identifierOrKeyword();
+      if (!this.namespaces.has(prefix)) {
+        throw this.error(`Undeclared namespace prefix "${prefix}"`);
+      }
+      target.attributes.push(['ns', this.namespaces.get(prefix) ?? '']);
+    }
+  }
+
+  // PATTERNS
+
+  // Returns the pattern followed by any follow annotations.
+  private parsePattern(): XMLNode[] {
+    const first = this.parseParticle();
+    const op = this.peek();
+    if (op.type !== 'op' || ![',', '|', '&'].includes(op.value)) {
+      return first;
+    }
+    const children = [...first];
+    while (this.isOp(op.value)) {
+      this.next();
+      children.push(...this.parseParticle());
+    }
+    if (this.isOp(',') || this.isOp('|') || this.isOp('&')) {
+      throw this.error('Mixing operators requires parentheses');
+    }
+    const name = op.value === ',' ? 'group' : op.value === '|' ? 'choice' : 'interleave';
+    return [node(name, [], children)];
+  }
+
+  private parseParticle(): XMLNode[] {
+    const annotations = this.parseLeadingAnnotations();
+    const primary = this.parsePrimary();
+    let pattern = primary.name === 'value'
+      ? this.applyTextAnnotations(primary, annotations)
+      : [this.applyAnnotations(primary, annotations)];
+    if (this.isOp('?') || this.isOp('*') || this.isOp('+')) {
+      const op = this.next().value;
+      const name = op === '?' ? 'optional' : op === '*' ? 'zeroOrMore' : 'oneOrMore';
+      pattern = [node(name, [], pattern)];
+    }
+    return [...pattern, ...this.parseFollowAnnotations()];
+  }
+
+  private parseBlock(): XMLNode[] {
+    this.expect('op', '{');
+    const pattern = this.parsePattern();
+    this.expect('op', '}');
+    return pattern;
+  }
+
+  private parsePrimary(): XMLNode {
+    const token = this.peek();
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'element':
+        case 'attribute': {
+          this.next();
+          const isAttribute = token.value === 'attribute';
+          const nameClass = this.parseNameClass(isAttribute);
+          const target = node(token.value, nameClass.attributes);
+          if (nameClass.node) {
+            target.children.push(nameClass.node);
+          }
+          target.children.push(...this.parseBlock());
+          return target;
+        }
+        case 'list':
+        case 'mixed':
+          this.next();
+          return node(token.value, [], this.parseBlock());
+        case 'empty':
+        case 'text':
+        case 'notAllowed':
+          this.next();
+          return node(token.value);
+        case 'parent':
+          this.next();
+          return node('parentRef', [['name', this.expect('identifier').value]]);
+        case 'external': {
+          this.next();
+          const ref = node('externalRef', [['href', this.literal()]]);
+          this.parseInherit(ref);
+          return ref;
+        }
+        case 'grammar': {
+          this.next();
+          this.expect('op', '{');
+          const grammar = node('grammar', [], this.parseGrammarContent('}'));
+          this.expect('op', '}');
+          return grammar;
+        }
+        case 'string':
+        case 'token':
+          this.next();
+          return this.parseData(token.value, '');
+        default:
+          throw this.error(`Unexpected keyword "${token.value}"`);
+      }
+    }
+    if (token.type === 'identifier') {
+      this.next();
+      return node('ref', [['name', token.value]]);
+    }
+    if (token.type === 'cname') {
+      this.next();
+      const [prefix, local] = token.value.split(':');
+      const library = this.datatypes.get(prefix);
+      if (library === undefined) {
+        throw this.error(`Undeclared datatype prefix "${prefix}"`, token);
+      }
+      return this.parseData(local, library);
+    }
+    if (token.type === 'literal') {
+      return node('value', [['type', 'token'], ['datatypeLibrary', '']], [this.literal()]);
+    }
+    if (this.isOp('(')) {
+      this.next();
+      const pattern = this.parsePattern();
+      this.expect('op', ')');
+      return pattern.length === 1 ? pattern[0] : node('group', [], pattern);
+    }
+    throw this.error(token.type === 'eof' ? 'Unexpected end of file' : `Unexpected "${token.value}"`);
+  }
+
+  // A datatype name was read: parse a value, or params and an except pattern.
+  private parseData(type: string, library: string): XMLNode {
+    const attributes: [string, string][] = [['type', type], ['datatypeLibrary', library]];
+    if (this.is('literal')) {
+      return node('value', attributes, [this.literal()]);
+    }
+    const data = node('data', attributes);
+    if (this.isOp('{')) {
+      this.next();
+      while (!this.isOp('}')) {
+        const annotations = this.parseLeadingAnnotations();
+        const name = this.identifierOrKeyword();
+        this.expect('op', '=');
+        data.children.push(...this.applyTextAnnotations(node('param', [['name', name]], [this.literal()]), annotations));
+      }
+      this.expect('op', '}');
+    }
+    if (this.isOp('-')) {
+      this.next();
+      data.children.push(node('except', [], [this.parsePrimary()]));
+    }
+    return data;
+  }
+
+  // NAME CLASSES
+
+  private resolvePrefix(prefix: string, token: Token): string {
+    if (!this.namespaces.has(prefix)) {
+      throw this.error(`Undeclared namespace prefix "${prefix}"`, token);
+    }
+    return this.namespaces.get(prefix) ?? '';
+  }
+
+  // Simple names become a name attribute on the element or attribute pattern
+  // (which is where salve looks for documentation), other name classes a
+  // child node.
+  private parseNameClass(isAttribute: boolean): {attributes: [string, string][], node?: XMLNode} {
+    const token = this.peek();
+    if ((token.type === 'identifier' || token.type === 'keyword' || token.type === 'cname') && !this.isOp('|', 1)) {
+      this.next();
+      if (token.type === 'cname') {
+        const [prefix, local] = token.value.split(':');
+        if (this.resolvePrefix(prefix, token) === '') {
+          return {attributes: [['name', local], ['ns', '']]};
+        }
+        // Prefixes are declared on the root element.
+        return {attributes: [['name', token.value]]};
+      }
+      return {attributes: [['name', token.value]]};
+    }
+    return {attributes: [], node: this.parseNameClassChoice(isAttribute)};
+  }
+
+  private parseNameClassChoice(isAttribute: boolean): XMLNode {
+    const choices = this.parseBasicNameClass(isAttribute);
+    while (this.isOp('|')) {
+      this.next();
+      choices.push(...this.parseBasicNameClass(isAttribute));
+    }
+    return choices.length === 1 ? choices[0] : node('choice', [], choices);
+  }
+
+  private parseBasicNameClass(isAttribute: boolean): XMLNode[] {
+    const annotations = this.parseLeadingAnnotations();
+    const token = this.next();
+    let nameClass: XMLNode;
+    if (token.type === 'identifier' || token.type === 'keyword') {
+      const ns: [string, string][] = isAttribute ? [['ns', '']] : [];
+      nameClass = node('name', ns, [token.value]);
+    } else if (token.type === 'cname') {
+      const [prefix, local] = token.value.split(':');
+      nameClass = node('name', [['ns', this.resolvePrefix(prefix, token)]], [local]);
+    } else if (token.type === 'nsname') {
+      nameClass = node('nsName', [['ns', this.resolvePrefix(token.value, token)]]);
+      this.parseNameClassExcept(nameClass, isAttribute);
+    } else if (token.type === 'op' && token.value === '*') {
+      nameClass = node('anyName');
+      this.parseNameClassExcept(nameClass, isAttribute);
+    } else if (token.type === 'op' && token.value === '(') {
+      nameClass = this.parseNameClassChoice(isAttribute);
+      this.expect('op', ')');
+    } else {
+      throw this.error('Expected a name class', token);
+    }
+    return nameClass.name === 'name'
+      ? this.applyTextAnnotations(nameClass, annotations)
+      : [this.applyAnnotations(nameClass, annotations)];
+  }
+
+  private parseNameClassExcept(nameClass: XMLNode, isAttribute: boolean): void {
+    if (this.isOp('-')) {
+      this.next();
+      nameClass.children.push(node('except', [], this.parseBasicNameClass(isAttribute)));
+    }
+  }
+}
+
+function escapeXML(text: string, attribute = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;').replace(/\n/g, '&#10;').replace(/\t/g, '&#9;') : escaped;
+}
+
+function serialize(n: XMLNode, indent = ''): string {
+  const attributes = n.attributes.map(([name, value]) => ` ${name}="${escapeXML(value, true)}"`).join('');
+  if (n.children.length === 0) {
+    return `${indent}<${n.name}${attributes}/>`;
+  }
+  if (n.children.some(c => typeof c === 'string')) {
+    // Keep mixed content on one line so that whitespace is preserved.
+    const content = n.children.map(c => typeof c === 'string' ? escapeXML(c) : serialize(c)).join('');
+    return `${indent}<${n.name}${attributes}>${content}</${n.name}>`;
+  }
+  const children = n.children.map(c => serialize(c as XMLNode, `${indent}  `)).join('\n');
+  return `${indent}<${n.name}${attributes}>\n${children}\n${indent}</${n.name}>`;
+}
+
+/**
+ * Converts a schema in RELAX NG compact syntax to RELAX NG XML syntax.
+ * Throws an error with the line and column on syntax errors.
+ */
+export function convertRNCToRNG(rncText: string): string {
+  return new CompactSyntaxParser(rncText.replace(/^\uFEFF/, '')).parse();
+}
+
+/**
+ * Whether a schema is in the compact syntax, by extension or by content,
+ * since XML syntax schemas always start with "<".
+ */
+export function isCompactSyntax(schemaURL: string, schemaText?: string): boolean {
+  if (/\.rnc([?#].*)?$/i.test(schemaURL)) {
+    return true;
+  }
+  return schemaText !== undefined && !/^\uFEFF?\s*</.test(schemaText) && schemaText.trim() !== '';
+}
+
+/** Returns the XML syntax of a schema, converting compact syntax if needed. */
+export function schemaSourceToRNG(schemaURL: string, schemaText: string): string {
+  return isCompactSyntax(schemaURL, schemaText) ? convertRNCToRNG(schemaText) : schemaText;
+}
+
+/**
+ * Resource loader for salve that converts compact syntax schemas to the XML
+ * syntax as they are loaded.
+ */
+export class CompactSyntaxResourceLoader implements ResourceLoader {
+  private readonly loader: ResourceLoader;
+
+  constructor(loader: ResourceLoader = makeResourceLoader()) {
+    this.loader = loader;
+  }
+
+  public async load(path: URL): Promise<Resource> {
+    const resource = await this.loader.load(path);
+    const text = schemaSourceToRNG(resource.url.toString(), await resource.getText());
+    return {
+      url: resource.url,
+      getText: () => Promise.resolve(text),
+    };
+  }
+}
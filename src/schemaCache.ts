@@ -0,0 +1,267 @@
+import 'cross-fetch/polyfill';
+import * as vscode from 'vscode';
+import { Grammar } from 'salve-annos';
+import { readStoredSchema, writeStoredSchema } from './schemaStorage';
+import { CatalogResourceLoader, XMLCatalog } from './catalog';
+import { CompactSyntaxResourceLoader, schemaSourceToRNG } from './rnc';
+import { patternFromStored, SimplifiedSchema, StoredNode } from './simplifiedSchema';
+import ValidationClient from './validationClient';
+import { RNG_ROOT } from './validationEngine';
+
+export interface StoredGrammar {
+  rngURI?: string;
+  // For completions and the like, built from the simplified schema when first used.
+  grammar?: Grammar | void;
+  // Simplified schema, for the validation worker to build its own grammar from.
+  simplified?: StoredNode;
+  // Full text of the schema, with included files.
+  schemaText?: string;
+  // Text of a standalone Schematron file, or of the RELAX NG schema it embeds rules in.
+  schematronText?: string;
+}
+
+interface CacheEntry {
+  // URL of the schema, entries are keyed by kind and URL.
+  url: string;
+  compiled: Promise<StoredGrammar | void>;
+  // Modification time of a local schema when it was compiled.
+  mtime?: number;
+  // Estimated memory taken by the compiled schema, in bytes.
+  size: number;
+  watchers: vscode.FileSystemWatcher[];
+}
+
+// Standalone Schematron files are cached next to the grammars, under a key
+// that can't be mistaken for a schema URL.
+function schematronKey(schURI: string): string {
+  return `schematron ${schURI}`;
+}
+
+// Rough ratio between the length of the simplified schema and the memory
+// taken by the compiled grammar.
+const SIZE_FACTOR = 10;
+
+// Validation uses the grammar compiled in the worker, so the editor only
+// builds its own once it needs one.
+function withLazyGrammar(stored: StoredGrammar): StoredGrammar {
+  let grammar: Grammar | void;
+  let built = false;
+  return Object.defineProperty(stored, 'grammar', {
+    get: () => {
+      if (!built && stored.simplified) {
+        built = true;
+        try {
+          grammar = patternFromStored(stored.simplified);
+        } catch(err) {
+          console.error("Could not build grammar", stored.rngURI, (err as Error).message);
+        }
+      }
+      return grammar;
+    },
+  });
+}
+
+async function localMtime(rngURI: string): Promise<number | undefined> {
+  if (!rngURI.startsWith('file:')) {
+    return;
+  }
+  try {
+    const stat = await vscode.workspace.fs.stat(vscode.Uri.parse(rngURI));
+    return stat.mtime;
+  } catch(err) {
+    return;
+  }
+}
+
+/**
+ * Compiled schemas keyed by normalized schema URL, so that all documents
+ * pointing to the same schema share one grammar. Least recently used schemas
+ * are evicted past the limits set in settings. Local schemas (and the files
+ * they include) are watched and recompiled when they change.
+ *
+ * When a storage location is given, compiled schemas are also kept on disk and
+ * reused across sessions, which avoids downloading remote schemas again.
+ */
+class SchemaCache implements vscode.Disposable {
+  private entries: Map<string, CacheEntry> = new Map();
+  private readonly client: ValidationClient;
+  private readonly storageUri?: vscode.Uri;
+  private catalog?: XMLCatalog;
+  private readonly invalidated = new vscode.EventEmitter<string>();
+  private readonly dropped = new vscode.EventEmitter<StoredGrammar>();
+  /** Fires with the schema URL after a schema changed on disk and got recompiled. */
+  readonly onDidInvalidate = this.invalidated.event;
+  /** Fires with a compiled schema that is no longer kept, so that copies of it can go too. */
+  readonly onDidDrop = this.dropped.event;
+
+  constructor(client: ValidationClient, storageUri?: vscode.Uri) {
+    this.client = client;
+    this.storageUri = storageUri;
+  }
+
+  /** Sets the catalog used to locate included schemas and drops schemas compiled without it. */
+  public setCatalog(catalog: XMLCatalog | undefined): void {
+    this.catalog = catalog;
+    for (const key of Array.from(this.entries.keys())) {
+      this.delete(key);
+    }
+  }
+
+  public has(rngURI: string): boolean {
+    return this.entries.has(rngURI);
+  }
+
+  public async get(rngURI: string): Promise<StoredGrammar | void> {
+    return this.lookup(rngURI, rngURI, entry => this.compile(rngURI, entry));
+  }
+
+  /**
+   * Loads a standalone Schematron file. Schemas in RELAX NG are accepted as
+   * well, in which case the compiled schema is used for its embedded rules.
+   */
+  public async getSchematron(schURI: string): Promise<StoredGrammar | void> {
+    return this.lookup(schematronKey(schURI), schURI, entry => this.loadSchematron(schURI, entry));
+  }
+
+  private async lookup(key: string, url: string,
+    compile: (entry: CacheEntry) => Promise<StoredGrammar | void>): Promise<StoredGrammar | void> {
+    const mtime = await localMtime(url);
+    let entry = this.entries.get(key);
+    if (entry && entry.mtime !== mtime) {
+      // The schema changed since it was compiled.
+      this.delete(key);
+      entry = undefined;
+    }
+    if (entry) {
+      // Mark as most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry.compiled;
+    }
+    const newEntry: CacheEntry = {
+      url,
+      compiled: Promise.resolve(),
+      mtime,
+      size: 0,
+      watchers: [],
+    };
+    this.entries.set(key, newEntry);
+    newEntry.compiled = compile(newEntry);
+    return newEntry.compiled;
+  }
+
+  public delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.watchers.forEach(w => w.dispose());
+      this.entries.delete(key);
+      entry.compiled.then(stored => stored && this.dropped.fire(stored));
+    }
+  }
+
+  public dispose(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.delete(key);
+    }
+    this.invalidated.dispose();
+    this.dropped.dispose();
+  }
+
+  private async compile(rngURI: string, entry: CacheEntry): Promise<StoredGrammar | void> {
+    // The worker keeps the grammar it compiles for this object.
+    const stored: StoredGrammar = {rngURI};
+    // Stored under the catalog it is compiled with, even if that changes meanwhile.
+    const catalog = this.catalog;
+    try {
+      let s: SimplifiedSchema | void = this.storageUri ? await readStoredSchema(this.storageUri, rngURI, catalog) : undefined;
+      if (!s) {
+        s = await this.client.compileGrammar(stored, rngURI, catalog);
+        if (this.storageUri) {
+          writeStoredSchema(this.storageUri, rngURI, s, catalog)
+            .catch(err => console.error("Could not store schema", rngURI, err));
+        }
+      }
+      if (this.entries.get(rngURI) === entry) {
+        entry.size = s.schemaText.length * SIZE_FACTOR;
+        entry.watchers = s.manifest
+          .map(m => m.filePath)
+          .filter(f => f.startsWith('file:'))
+          .map(f => this.watch(rngURI, vscode.Uri.parse(f), () => this.get(rngURI)));
+        this.evict();
+      }
+      // Schematron rules embedded in the schema are compiled by the validation worker.
+      stored.simplified = s.simplified;
+      stored.schemaText = s.schemaText;
+      return withLazyGrammar(stored);
+    } catch(err) {
+      // Don't keep failed schemas around so that they get retried.
+      if (this.entries.get(rngURI) === entry) {
+        this.entries.delete(rngURI);
+      }
+      this.client.unload(stored);
+      console.log("Could not compile schema", rngURI, (err as Error).message);
+      vscode.window.showInformationMessage('Could not parse schema.');
+    }
+  }
+
+  private async loadSchematron(schURI: string, entry: CacheEntry): Promise<StoredGrammar | void> {
+    const key = schematronKey(schURI);
+    try {
+      const loader = new CompactSyntaxResourceLoader();
+      const resource = await (this.catalog ? new CatalogResourceLoader(this.catalog, loader) : loader).load(new URL(schURI));
+      let schematronText = schemaSourceToRNG(schURI, await resource.getText());
+      if (RNG_ROOT.test(schematronText)) {
+        // Use the compiled schema, so that rules from included files are found.
+        schematronText = (await this.get(schURI))?.schemaText ?? schematronText;
+      }
+      if (this.entries.get(key) === entry) {
+        entry.size = schematronText.length * SIZE_FACTOR;
+        if (schURI.startsWith('file:')) {
+          entry.watchers = [this.watch(key, vscode.Uri.parse(schURI), () => this.getSchematron(schURI))];
+        }
+        this.evict();
+      }
+      return {schematronText};
+    } catch(err) {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+      vscode.window.showInformationMessage(`Could not read Schematron ${schURI}.`);
+    }
+  }
+
+  private watch(key: string, file: vscode.Uri, recompile: () => Promise<StoredGrammar | void>): vscode.FileSystemWatcher {
+    const dir = vscode.Uri.joinPath(file, '..');
+    const name = file.path.split('/').pop() as string;
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(dir, name));
+    const invalidate = () => {
+      const url = this.entries.get(key)?.url;
+      console.log("Schema changed, recompiling", url);
+      this.delete(key);
+      recompile().then(() => url && this.invalidated.fire(url));
+    };
+    watcher.onDidChange(invalidate);
+    watcher.onDidDelete(invalidate);
+    return watcher;
+  }
+
+  private evict(): void {
+    const config = vscode.workspace.getConfiguration("sxml");
+    const maxSchemas = config.get("schemaCacheSize") as number;
+    const maxBytes = (config.get("schemaCacheMemory") as number) * 1024 * 1024;
+    let total = 0;
+    this.entries.forEach(e => total += e.size);
+    // Map keeps insertion order, so the first entries are the least recently used.
+    // Always keep the most recent one.
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (this.entries.size <= 1 || (this.entries.size <= maxSchemas && total <= maxBytes)) {
+        break;
+      }
+      console.log("Evicting schema from cache", entry.url);
+      total -= entry.size;
+      this.delete(key);
+    }
+  }
+}
+
+export default SchemaCache;
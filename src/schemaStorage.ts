@@ -0,0 +1,140 @@
+import 'cross-fetch/polyfill';
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { ManifestEntry, version as salveVersion } from 'salve-annos';
+import { XMLCatalog } from './catalog';
+import { schemaSourceToRNG } from './rnc';
+import { SimplifiedSchema, StoredNode } from './simplifiedSchema';
+
+// Bump when the stored format changes.
+const FORMAT_VERSION = 2;
+const HASH_ALGORITHM = 'SHA-1';
+
+interface StoredSchema {
+  format: number;
+  salve: string;
+  url: string;
+  // Fingerprint of the catalog the schema was compiled with.
+  catalog: string;
+  etag?: string;
+  manifest: ManifestEntry[];
+  simplified: StoredNode;
+  schemaText: string;
+}
+
+function hashText(text: string): string {
+  return `${HASH_ALGORITHM}-${createHash('sha1').update(text, 'utf8').digest('hex')}`;
+}
+
+// Hash of a source as it appears in the manifest, which has the XML syntax
+// also for compact syntax sources. Sources that no longer convert don't match.
+function sourceHash(url: string, text: string): string | undefined {
+  try {
+    return hashText(schemaSourceToRNG(url, text));
+  } catch(err) {
+    return;
+  }
+}
+
+// The catalog decides which files make up a schema, so schemas compiled
+// with different catalogs are stored apart.
+function catalogFingerprint(catalog?: XMLCatalog): string {
+  if (!catalog) {
+    return '';
+  }
+  const entries = catalog.entries.map(e => ({...e, uri: Array.from(e.uri), system: Array.from(e.system)}));
+  return hashText(JSON.stringify(entries));
+}
+
+function storedSchemaUri(storageUri: vscode.Uri, rngURI: string, catalog: string): vscode.Uri {
+  const name = createHash('sha1').update(`${rngURI} ${catalog}`, 'utf8').digest('hex');
+  return vscode.Uri.joinPath(storageUri, 'schemas', `${name}.json`);
+}
+
+async function remoteETag(rngURI: string): Promise<string | undefined> {
+  const response = await fetch(rngURI, {method: 'HEAD'});
+  return response.headers.get('ETag') ?? undefined;
+}
+
+// Whether the stored schema still matches its sources. When a source cannot
+// be reached (e.g. when offline), the stored schema is trusted.
+async function isFresh(stored: StoredSchema): Promise<boolean> {
+  if (stored.format !== FORMAT_VERSION || stored.salve !== salveVersion) {
+    return false;
+  }
+  for (const entry of stored.manifest) {
+    try {
+      if (entry.filePath.startsWith('file:')) {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.parse(entry.filePath));
+        if (sourceHash(entry.filePath, new TextDecoder().decode(content)) !== entry.hash) {
+          return false;
+        }
+      } else if (entry.filePath === stored.url) {
+        const etag = await remoteETag(stored.url);
+        if (etag && stored.etag) {
+          if (etag !== stored.etag) {
+            return false;
+          }
+        } else {
+          // Without an ETag, compare the content.
+          const response = await fetch(stored.url);
+          if (response.ok && sourceHash(stored.url, await response.text()) !== entry.hash) {
+            return false;
+          }
+        }
+      }
+    } catch(err) {
+      console.log("Could not check schema source, using stored schema", entry.filePath);
+    }
+  }
+  return true;
+}
+
+export async function readStoredSchema(storageUri: vscode.Uri, rngURI: string,
+  catalog?: XMLCatalog): Promise<SimplifiedSchema | void> {
+  const fingerprint = catalogFingerprint(catalog);
+  let stored: StoredSchema;
+  try {
+    const content = await vscode.workspace.fs.readFile(storedSchemaUri(storageUri, rngURI, fingerprint));
+    stored = JSON.parse(new TextDecoder().decode(content));
+  } catch(err) {
+    return;
+  }
+  if (stored.url !== rngURI || stored.catalog !== fingerprint || !await isFresh(stored)) {
+    return;
+  }
+  console.log("Using stored schema", rngURI);
+  return {
+    simplified: stored.simplified,
+    schemaText: stored.schemaText,
+    manifest: stored.manifest,
+  };
+}
+
+export async function writeStoredSchema(storageUri: vscode.Uri, rngURI: string, result: SimplifiedSchema,
+  catalog?: XMLCatalog): Promise<void> {
+  const fingerprint = catalogFingerprint(catalog);
+  let etag: string | undefined;
+  if (!rngURI.startsWith('file:')) {
+    try {
+      etag = await remoteETag(rngURI);
+    } catch(err) {
+      // Content hashes will be used instead.
+    }
+  }
+  const stored: StoredSchema = {
+    format: FORMAT_VERSION,
+    salve: salveVersion,
+    url: rngURI,
+    catalog: fingerprint,
+    etag,
+    manifest: result.manifest,
+    simplified: result.simplified,
+    schemaText: result.schemaText,
+  };
+  const target = storedSchemaUri(storageUri, rngURI, fingerprint);
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'));
+  await vscode.workspace.fs.writeFile(
+    target,
+    new TextEncoder().encode(JSON.stringify(stored)));
+}
@@ -0,0 +1,55 @@
+import { Grammar, ManifestEntry } from 'salve-annos';
+import { ConcreteNode, Element, Text } from 'salve-annos/lib/salve/conversion/parser';
+import { makePatternFromSimplifiedSchema } from 'salve-annos/lib/salve/conversion/convert-simplified';
+
+// Simplified schema node: either text or an element with its local name,
+// attributes, documentation and children.
+export type StoredNode = string | {
+  l: string;
+  a: Record<string, string>;
+  d?: string;
+  c: StoredNode[];
+};
+
+// A compiled schema as plain data: the simplified schema, the full text of
+// the schema with included files, and the files it is made of.
+export interface SimplifiedSchema {
+  simplified: StoredNode;
+  schemaText: string;
+  manifest: ManifestEntry[];
+}
+
+// salve's own JSON format drops the documentation from the schema, which
+// completions rely on, so the simplified schema is kept as plain data instead
+// and converted to a pattern again when needed. Plain data can be stored on
+// disk and sent to the validation worker.
+export function writeNode(node: ConcreteNode): StoredNode {
+  if (node.kind === 'text') {
+    return node.text;
+  }
+  const attributes: Record<string, string> = {};
+  for (const [name, att] of Object.entries(node.getRawAttributes())) {
+    attributes[name] = att.value;
+  }
+  const stored: StoredNode = {l: node.local, a: attributes, c: node.children.map(writeNode)};
+  if (node.documentation) {
+    stored.d = node.documentation;
+  }
+  return stored;
+}
+
+export function readNode(stored: StoredNode): ConcreteNode {
+  if (typeof stored === 'string') {
+    return new Text(stored);
+  }
+  const attributes = Object.create(null);
+  for (const [name, value] of Object.entries(stored.a)) {
+    attributes[name] = {name, prefix: '', local: name, uri: '', value};
+  }
+  return new Element('', stored.l, '', {}, attributes, stored.d, stored.c.map(readNode));
+}
+
+/** Builds the grammar of a simplified schema kept as plain data. */
+export function patternFromStored(stored: StoredNode): Grammar {
+  return makePatternFromSimplifiedSchema(readNode(stored) as Element);
+}
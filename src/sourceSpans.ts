@@ -0,0 +1,76 @@
+// Zero-based, as in VS Code.
+export interface SourcePosition {
+  line: number;
+  character: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// Offsets of an attribute in the source, the value without its quotes.
+export interface AttributeSpan {
+  start: number;
+  end: number;
+  nameEnd: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * Converts offsets in a text to line and character positions.
+ */
+export class SourceLines {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(text: string) {
+    const lineBreaks = /\r\n|\r|\n/g;
+    let lineBreak: RegExpExecArray | null;
+    while ((lineBreak = lineBreaks.exec(text))) {
+      this.lineStarts.push(lineBreak.index + lineBreak[0].length);
+    }
+  }
+
+  public position(offset: number): SourcePosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return {line: low, character: offset - this.lineStarts[low]};
+  }
+
+  public range(start: number, end: number): SourceRange {
+    return {start: this.position(start), end: this.position(end)};
+  }
+}
+
+/**
+ * Finds the attributes of the start tag between start and end, by qualified
+ * name, since saxes doesn't report where they are.
+ */
+export function attributeSpans(xmlSource: string, start: number, end: number, tagName: string): Map<string, AttributeSpan> {
+  const spans = new Map<string, AttributeSpan>();
+  const attributeRe = /([^\s=<>\/"']+)(\s*=\s*)("[^"]*"|'[^']*')/g;
+  const tagText = xmlSource.slice(start, end);
+  attributeRe.lastIndex = tagName.length + 1;
+  let att: RegExpExecArray | null;
+  while ((att = attributeRe.exec(tagText))) {
+    const attStart = start + att.index;
+    const valueStart = attStart + att[1].length + att[2].length + 1;
+    spans.set(att[1], {
+      start: attStart,
+      end: attStart + att[0].length,
+      nameEnd: attStart + att[1].length,
+      valueStart,
+      valueEnd: valueStart + att[3].length - 2,
+    });
+  }
+  return spans;
+}
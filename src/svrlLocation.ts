@@ -0,0 +1,246 @@
+import { SaxesParser, SaxesTagNS } from 'saxes';
+import { SourceLines, SourceRange, attributeSpans } from './sourceSpans';
+
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+type NodeKind = 'root' | 'element' | 'attribute' | 'text' | 'comment' | 'processing-instruction';
+
+// Node of the document with its offsets in the source. For elements, the
+// offsets are those of the start tag.
+interface SourceNode {
+  kind: NodeKind;
+  uri?: string;
+  // Local name of elements and attributes, target of processing instructions.
+  local?: string;
+  start: number;
+  end: number;
+  attributes: SourceNode[];
+  children: SourceNode[];
+}
+
+// Location path step, e.g. Q{ns}local[2], @Q{}att, text()[1] or
+// *:local[namespace-uri()='ns'][1].
+interface LocationStep {
+  kind: NodeKind;
+  // Undefined matches any namespace.
+  uri?: string;
+  // Undefined matches any name.
+  local?: string;
+  index: number;
+}
+
+function node(kind: NodeKind, start: number, end: number, uri?: string, local?: string): SourceNode {
+  return {kind, uri, local, start, end, attributes: [], children: []};
+}
+
+function parsePredicates(location: string, pos: number, step: LocationStep): number {
+  while (location[pos] === '[') {
+    let end = pos + 1;
+    let quote: string | undefined;
+    while (end < location.length && (quote || location[end] !== ']')) {
+      const c = location[end];
+      if (quote && c === quote) {
+        quote = undefined;
+      } else if (!quote && (c === '"' || c === "'")) {
+        quote = c;
+      }
+      end++;
+    }
+    const predicate = location.slice(pos + 1, end).trim();
+    if (/^\d+$/.test(predicate)) {
+      step.index = Number(predicate);
+    }
+    const uri = predicate.match(/namespace-uri\(\)\s*=\s*(["'])(.*?)\1/);
+    if (uri) {
+      step.uri = uri[2];
+    }
+    const local = predicate.match(/local-name\(\)\s*=\s*(["'])(.*?)\1/);
+    if (local) {
+      step.local = local[2];
+    }
+    pos = end + 1;
+  }
+  return pos;
+}
+
+/**
+ * Parses an SVRL location, as made by SchXslt or the Schematron skeleton.
+ * Returns undefined for locations it doesn't understand.
+ */
+export function parseLocation(location: string): LocationStep[] | undefined {
+  const steps: LocationStep[] = [];
+  let pos = 0;
+  while (pos < location.length) {
+    if (location[pos] !== '/') {
+      return;
+    }
+    pos++;
+    const step: LocationStep = {kind: 'element', index: 1};
+    if (location[pos] === '@') {
+      step.kind = 'attribute';
+      pos++;
+    }
+    const rest = location.slice(pos);
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^Q\{([^}]*)\}([^\/\[\s]+)/))) {
+      step.uri = match[1];
+      step.local = match[2];
+    } else if ((match = rest.match(/^(text|comment)\(\)/))) {
+      step.kind = match[1] as NodeKind;
+    } else if ((match = rest.match(/^processing-instruction\(\s*(?:(["']?)([^)"']*)\1)?\s*\)/))) {
+      step.kind = 'processing-instruction';
+      step.local = match[2] || undefined;
+    } else if ((match = rest.match(/^(?:\*|node\(\))(?=[\/\[]|$)/))) {
+      // Any name, possibly narrowed down by predicates.
+    } else if ((match = rest.match(/^(?:[^\/\[\s:]+|\*):([^\/\[\s]+)/))) {
+      // The prefix can't be resolved, so only the local name is known.
+      step.local = match[1];
+    } else if ((match = rest.match(/^[^\/\[\s]+/))) {
+      step.local = match[0];
+    } else if (pos === location.length && steps.length === 0) {
+      // The document root.
+      break;
+    } else {
+      return;
+    }
+    pos = parsePredicates(location, pos + match[0].length, step);
+    steps.push(step);
+  }
+  return steps;
+}
+
+function matchesStep(node: SourceNode, step: LocationStep): boolean {
+  return node.kind === step.kind
+    && (step.uri === undefined || node.uri === step.uri)
+    && (step.local === undefined || node.local === step.local);
+}
+
+/**
+ * Finds the source ranges of the nodes pointed to by the locations of
+ * Schematron results. The document is parsed once, so that all results for it
+ * can be resolved against the same tree.
+ */
+export class LocationResolver {
+  private readonly root: SourceNode;
+  private readonly lines: SourceLines;
+
+  constructor(xmlSource: string) {
+    this.lines = new SourceLines(xmlSource);
+    this.root = LocationResolver.parseTree(xmlSource);
+  }
+
+  private static parseTree(xmlSource: string): SourceNode {
+    const root = node('root', 0, 0);
+    const stack: SourceNode[] = [root];
+    const parser = new SaxesParser({ xmlns: true, position: true });
+    // End of the last markup, where text starts.
+    let markupEnd = 0;
+    let text: SourceNode | undefined;
+
+    const parent = () => stack[stack.length - 1];
+    // Text nodes run until the next element, comment or processing instruction.
+    const endText = (end: number) => {
+      if (text) {
+        text.end = end;
+        text = undefined;
+      }
+    };
+    const addText = () => {
+      if (!text && stack.length > 1) {
+        text = node('text', markupEnd, markupEnd);
+        parent().children.push(text);
+      }
+    };
+
+    parser.on('opentagstart', () => {
+      const start = xmlSource.lastIndexOf('<', parser.position - 1);
+      endText(start);
+      markupEnd = start;
+    });
+
+    parser.on('opentag', (tag: SaxesTagNS) => {
+      const start = markupEnd;
+      const end = parser.position;
+      const element = node('element', start, end, tag.uri, tag.local);
+      attributeSpans(xmlSource, start, end, tag.name).forEach((span, name) => {
+        const attribute = tag.attributes[name];
+        if (attribute && attribute.uri !== XMLNS_NS) {
+          element.attributes.push(node('attribute', span.start, span.end, attribute.uri, attribute.local));
+        }
+      });
+      parent().children.push(element);
+      stack.push(element);
+      markupEnd = end;
+    });
+
+    parser.on('closetag', () => {
+      const end = parser.position;
+      const element = stack.pop() as SourceNode;
+      if (end !== element.end) {
+        // Not a self-closing tag.
+        endText(xmlSource.lastIndexOf('</', end - 1));
+      }
+      markupEnd = end;
+    });
+
+    parser.on('text', addText);
+    parser.on('cdata', () => {
+      addText();
+      markupEnd = parser.position;
+    });
+
+    parser.on('comment', () => {
+      // The comment is reported before its closing ">" is read.
+      const start = xmlSource.lastIndexOf('<!--', parser.position - 1);
+      const end = xmlSource.indexOf('-->', start + 4) + 3;
+      endText(start);
+      parent().children.push(node('comment', start, end));
+      markupEnd = end;
+    });
+
+    parser.on('processinginstruction', (pi: {target: string}) => {
+      const end = parser.position;
+      const start = xmlSource.lastIndexOf('<?', end - 1);
+      endText(start);
+      parent().children.push(node('processing-instruction', start, end, undefined, pi.target));
+      markupEnd = end;
+    });
+
+    parser.on('doctype', () => {
+      markupEnd = parser.position;
+    });
+
+    try {
+      parser.write(xmlSource).close();
+    } catch(err) {
+      // Keep what was parsed before the error.
+      console.log("Could not parse document for Schematron locations", (err as Error).message);
+    }
+    return root;
+  }
+
+  /**
+   * Returns the range of the start tag, attribute, text, comment or
+   * processing instruction at the location. When only part of the location
+   * can be found, returns the range of the deepest node found.
+   */
+  public resolve(location: string): SourceRange | undefined {
+    const steps = parseLocation(location.trim());
+    if (!steps) {
+      return;
+    }
+    let current = this.root;
+    for (const step of steps) {
+      const candidates = step.kind === 'attribute' ? current.attributes : current.children;
+      const next = candidates.filter(c => matchesStep(c, step))[step.index - 1];
+      if (!next) {
+        break;
+      }
+      current = next;
+    }
+    if (current === this.root) {
+      return;
+    }
+    return this.lines.range(current.start, current.end);
+  }
+}
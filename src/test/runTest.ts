@@ -12,8 +12,11 @@ async function main() {
 		// Passed to --extensionTestsPath
 		const extensionTestsPath = path.resolve(__dirname, './suite/index');
 
+		// The workspace to open, with files the tests validate without opening them
+		const workspacePath = path.resolve(__dirname, '../../src/test/workspace');
+
 		// Download VS Code, unzip it and run the integration test
-		await runTests({ extensionDevelopmentPath, extensionTestsPath });
+		await runTests({ extensionDevelopmentPath, extensionTestsPath, launchArgs: [workspacePath] });
 	} catch (err) {
 		console.error('Failed to run tests');
 		process.exit(1);
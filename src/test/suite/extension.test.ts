@@ -1,7 +1,28 @@
 import * as assert from 'assert';
 import * as path from 'path';
+import { promises as fs } from 'fs';
+import * as os from 'os';
 import * as vscode from 'vscode';
 import * as sxml from '../../extension';
+import { CatalogResourceLoader, XMLCatalog } from '../../catalog';
+import { LocationResolver } from '../../svrlLocation';
+import { elementsByName, requiredContent } from '../../contentModel';
+import { idProblems, xmlIds, xmlPointers } from '../../ids';
+import { documentSymbols, labelRules } from '../../documentSymbols';
+import { markupTree, selectionSpans } from '../../xmlRanges';
+import { wrapChoices } from '../../wrapElement';
+import { getCompletions, namespaceNamer } from '../../completion';
+import { convertRNCToRNG } from '../../rnc';
+import ValidationScheduler from '../../validationScheduler';
+import ValidationClient from '../../validationClient';
+import SchemaCache from '../../schemaCache';
+import { readStoredSchema, writeStoredSchema } from '../../schemaStorage';
+import { writeNode } from '../../simplifiedSchema';
+import { duplicateIds, validateWithGrammar } from '../../validationEngine';
+import { ERR_SCHEMA, ERR_VALID, NO_ERR, validate } from '../../validator';
+import { expandPattern, formatResults, globToRegExp } from '../../cli';
+import { convertRNGToPattern, DefaultNameResolver } from 'salve-annos';
+import { Element } from 'salve-annos/lib/salve/patterns';
 
 const testFolderLocation = '../../../src/test/data/';
 const samplesProvider = class implements vscode.TextDocumentContentProvider {
@@ -47,6 +68,165 @@ suite('Scholarly XML Test Suite', async () => {
 		assert.equal(schema, `file:///test.rng`);
 	});
 
+	test(`Resolve a relative RelaxNG schema URL against the file location`, async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test.xml')
+		);
+		const fileText = `<?xml-model href="test.rng" schematypens="http://relaxng.org/ns/structure/1.0"?><root/>`;
+
+		const schemaInfo = sxml.locateSchemaForText(fileText, uri);
+		assert.ok(schemaInfo);
+		const { schema } = schemaInfo;
+		assert.equal(schema, vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.rng')).toString());
+	});
+
+	test(`Map schema URLs to local copies with an XML catalog`, async () => {
+		const catalog = XMLCatalog.parse(`<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog">
+			<uri name="https://example.org/schema/main.rng" uri="local/main.rng"/>
+			<group xml:base="file:///schemas/">
+				<rewriteURI uriStartString="https://vault.tei-c.org/P5/" rewritePrefix="tei/"/>
+				<rewriteSystem systemIdStartString="http://example.org/" rewritePrefix="system/"/>
+			</group>
+		</catalog>`, 'file:///catalogs/catalog.xml');
+
+		assert.equal(catalog.resolve('https://example.org/schema/main.rng'), 'file:///catalogs/local/main.rng');
+		assert.equal(catalog.resolve('https://vault.tei-c.org/P5/current/tei_all.rng'), 'file:///schemas/tei/current/tei_all.rng');
+		assert.equal(catalog.resolve('http://example.org/dtd/x.dtd'), 'file:///schemas/system/dtd/x.dtd');
+		assert.equal(catalog.resolve('https://example.com/other.rng'), undefined);
+	});
+
+	test(`Map the files included by a schema from where the schema was before the catalog`, async () => {
+		const catalog = XMLCatalog.parse(`<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog">
+			<uri name="https://example.org/schema/main.rng" uri="copy/main.rng"/>
+			<uri name="https://example.org/schema/modules/part.rng" uri="elsewhere/part.rng"/>
+			<uri name="file:///catalogs/copy/local.rng" uri="local/local.rng"/>
+		</catalog>`, 'file:///catalogs/catalog.xml');
+		const loaded: string[] = [];
+		const loader = new CatalogResourceLoader(catalog, {
+			load: async (url: URL) => {
+				loaded.push(url.toString());
+				return {url, getText: async () => `<grammar xmlns="http://relaxng.org/ns/structure/1.0">
+					<include href="modules/part.rng"/><include href="local.rng"/><externalRef href="other.rng"/></grammar>`};
+			},
+		});
+		const text = await (await loader.load(new URL('https://example.org/schema/main.rng'))).getText();
+		assert.deepEqual(loaded, ['file:///catalogs/copy/main.rng']);
+		assert.ok(text.includes('<include href="file:///catalogs/elsewhere/part.rng"/>'));
+		assert.ok(text.includes('<include href="file:///catalogs/local/local.rng"/>'));
+		assert.ok(text.includes('<externalRef href="other.rng"/>'));
+	});
+
+	test(`Locate Schematron results in the document`, async () => {
+		const resolver = new LocationResolver(`<TEI xmlns="http://www.tei-c.org/ns/1.0">
+  <p n="1">one</p>
+  <!-- comment -->
+  <p
+    n="2">two <hi>three</hi> four</p>
+</TEI>`);
+		const tei = '/Q{http://www.tei-c.org/ns/1.0}TEI[1]';
+		const p = 'Q{http://www.tei-c.org/ns/1.0}p';
+
+		assert.deepEqual(resolver.resolve(`${tei}/${p}[2]`), {start: {line: 3, character: 2}, end: {line: 4, character: 10}});
+		assert.deepEqual(resolver.resolve(`${tei}/${p}[2]/@Q{}n`), {start: {line: 4, character: 4}, end: {line: 4, character: 9}});
+		assert.deepEqual(resolver.resolve(`${tei}/${p}[2]/text()[2]`), {start: {line: 4, character: 28}, end: {line: 4, character: 33}});
+		assert.deepEqual(resolver.resolve(`${tei}/comment()[1]`), {start: {line: 2, character: 2}, end: {line: 2, character: 18}});
+	});
+
+	test('Convert compact syntax schemas to the XML syntax', async () => {
+		const convert = (rnc: string) => convertRNCToRNG(rnc).replace(/>\s+</g, '><');
+		const annotations = 'namespace a = "http://relaxng.org/ns/compatibility/annotations/1.0"\n';
+		assert.ok(convert(`${annotations}## A paragraph.\n[ a:defaultValue = "x" ] start = element p { text }`).includes(
+			'<start a:defaultValue="x"><a:documentation xmlns:a="http://relaxng.org/ns/compatibility/annotations/1.0">' +
+			'A paragraph.</a:documentation><element name="p">'));
+		assert.ok(convert(`${annotations}start = element p { text >> a:note [ "after" ] }`).includes(
+			'<element name="p"><text/><a:note>after</a:note></element>'));
+		assert.ok(convert('start |= element a { empty }\nstart |= element b { empty }\ninline &= attribute n { text }').includes(
+			'<start combine="choice"><element name="a"><empty/></element></start>' +
+			'<start combine="choice"><element name="b"><empty/></element></start>' +
+			'<define name="inline" combine="interleave"><attribute name="n"><text/></attribute></define>'));
+		assert.ok(convert('namespace x = "http://example.com"\nstart = element * - (foo | x:*) { xsd:string - "bad" }').includes(
+			'<element><anyName><except><choice><name>foo</name><nsName ns="http://example.com"/></choice></except></anyName>' +
+			'<data type="string" datatypeLibrary="http://www.w3.org/2001/XMLSchema-datatypes">' +
+			'<except><value type="token" datatypeLibrary="">bad</value></except></data></element>'));
+		assert.ok(convert('start = element l { list { xsd:integer+ }, mixed { element b { empty }* } }').includes(
+			'<group><list><oneOrMore><data type="integer" datatypeLibrary="http://www.w3.org/2001/XMLSchema-datatypes"/>' +
+			'</oneOrMore></list><mixed><zeroOrMore><element name="b"><empty/></element></zeroOrMore></mixed></group>'));
+
+		assert.throws(() => convertRNCToRNG('start = element a { empty'), {message: 'Expected } but found end of file at line 1, column 26'});
+		assert.throws(() => convertRNCToRNG('start = element a { b & c | d }'), {message: 'Mixing operators requires parentheses at line 1, column 27'});
+		// Annotations must annotate something, unlike documentation at the end.
+		assert.ok(convert('start = element a { empty }\n## The end.'));
+		assert.throws(() => convertRNCToRNG(`${annotations}start = element a { empty }\n[ a:doc [ "x" ] ]`),
+			{message: 'Expected a definition after the annotation at line 3, column 18'});
+	});
+
+	test('Validate a simple XML file with a compact syntax schema', async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test_rnc.xml')
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document);
+
+		const schemaInfo = sxml.locateSchema();
+		assert.ok(schemaInfo);
+		assert.equal(schemaInfo.schema, vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.rnc')).toString());
+
+		await vscode.commands.executeCommand('sxml.validate').then( async (context: any) => {
+			await sleep(1000);
+			const ctx = context as vscode.ExtensionContext;
+			const diagnostics = ctx.subscriptions[0] as vscode.DiagnosticCollection;
+			assert.equal(diagnostics.get(uri)?.length, 0);
+		});
+	});
+
+	test('Validate with a RelaxNG schema and a standalone Schematron', async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test_sch.xml')
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document);
+
+		const schemaInfo = sxml.locateSchema();
+		assert.ok(schemaInfo);
+		assert.deepEqual(schemaInfo.schematrons.map(s => s.url), [vscode.Uri.file(path.join(__dirname, testFolderLocation, 'rules.sch')).toString()]);
+
+		await vscode.commands.executeCommand('sxml.validate').then( async (context: any) => {
+			// wait for Schematron to run.
+			await sleep(4000);
+			const ctx = context as vscode.ExtensionContext;
+			const diagnostics = ctx.subscriptions[0] as vscode.DiagnosticCollection;
+			const d = diagnostics.get(uri);
+			assert.ok(d);
+			assert.equal(d.length, 2);
+			assert.equal(d[0].source, 'rules.sch');
+			assert.equal(d[0].range.start.line, 8);
+			assert.equal(d[0].severity, vscode.DiagnosticSeverity.Error);
+		});
+	}).timeout(30000);
+
+	test('Map Schematron roles to severities and select a phase from xml-model', async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test_sch_phase.xml')
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document);
+
+		await vscode.commands.executeCommand('sxml.validate').then( async (context: any) => {
+			// wait for Schematron to run.
+			await sleep(4000);
+			const ctx = context as vscode.ExtensionContext;
+			const diagnostics = ctx.subscriptions[0] as vscode.DiagnosticCollection;
+			const d = diagnostics.get(uri);
+			assert.ok(d);
+			// Only the rules of the "emails" phase run.
+			assert.equal(d.length, 1);
+			assert.equal(d[0].severity, vscode.DiagnosticSeverity.Warning);
+			const code = d[0].code as {value: string, target: vscode.Uri};
+			assert.equal(code.value, 'net-email');
+			assert.equal(code.target.toString(true), 'https://example.com/guidelines#email');
+		});
+	}).timeout(30000);
+
 	test('Validate a simple XML file with simple schema', async () => {
 		// open file
 		const uri = vscode.Uri.file(
@@ -61,7 +241,488 @@ suite('Scholarly XML Test Suite', async () => {
 			const diagnostics = ctx.subscriptions[0] as vscode.DiagnosticCollection;
 			assert.equal(diagnostics.get(uri)?.length, 0);
 		});
-	})
+	});
+
+	test('Underline the invalid attribute value', async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test_invalid.xml')
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document);
+
+		await vscode.commands.executeCommand('sxml.validate').then( async (context: any) => {
+			await sleep(1000);
+			const ctx = context as vscode.ExtensionContext;
+			const diagnostics = ctx.subscriptions[0] as vscode.DiagnosticCollection;
+			const d = diagnostics.get(uri);
+			assert.ok(d);
+			assert.ok(d[0].range.isEqual(new vscode.Range(5, 12, 5, 17)));
+			assert.equal(document.getText(d[0].range), 'alien');
+		});
+	});
+
+	test('Keep the diagnostics of each document when validating another', async () => {
+		const invalid = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test_invalid.xml'));
+		const valid = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.xml'));
+		await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(invalid));
+		const context = await vscode.commands.executeCommand('sxml.validate') as vscode.ExtensionContext;
+		await sleep(1000);
+		await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(valid), vscode.ViewColumn.Beside);
+		await vscode.commands.executeCommand('sxml.validate');
+		await sleep(1000);
+		const diagnostics = context.subscriptions[0] as vscode.DiagnosticCollection;
+		assert.ok(diagnostics.get(invalid)?.length);
+		assert.equal(diagnostics.get(valid)?.length, 0);
+	});
+
+	test('Debounce validations and drop superseded ones', async () => {
+		const document = await vscode.workspace.openTextDocument(
+			vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.xml')));
+		const finished: number[] = [];
+		const scheduler = new ValidationScheduler(async (_, run) => {
+			await sleep(50);
+			if (run.isCurrent()) {
+				finished.push(run.generation);
+			}
+		});
+		scheduler.schedule(document, 10);
+		scheduler.schedule(document, 10);
+		await sleep(100);
+		scheduler.schedule(document, 0);
+		await sleep(10);
+		scheduler.schedule(document, 0);
+		await sleep(200);
+		scheduler.dispose();
+		assert.deepEqual(finished, [2, 4]);
+	});
+
+	test('Validate in a worker without the VS Code API', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.rng'));
+		const {simplified} = await convertRNGToPattern(new URL(rng.toString()));
+		const client = new ValidationClient(path.join(__dirname, '..', '..', 'validationWorker.js'));
+		try {
+			const grammar = await client.loadGrammar(rng, writeNode(simplified));
+			assert.ok(grammar);
+			const document = await vscode.workspace.openTextDocument(
+				vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.xml')));
+			const valid = await client.validate(document.getText(), {schema: {grammar, source: 'test.rng'}});
+			assert.equal(valid.errorType, 'NO_ERR');
+			const invalid = await client.validate('<addressBook><card/></addressBook>', {schema: {grammar, source: 'test.rng'}});
+			assert.equal(invalid.errorType, 'ERR_VALID');
+			assert.equal(invalid.problems[0].source, 'test.rng');
+			assert.deepEqual(invalid.problems[0].data?.span, [13, 20]);
+			const controller = new AbortController();
+			const cancelled = client.validate('<addressBook>' + '<card/>'.repeat(100000) + '</addressBook>',
+				{schema: {grammar, source: 'test.rng'}, signal: controller.signal});
+			controller.abort();
+			await assert.rejects(cancelled, {message: 'Validation cancelled'});
+
+			// Schemas are compiled in the worker, which keeps the grammar.
+			const owner = {};
+			const compiled = await client.compileGrammar(owner, rng.toString());
+			assert.ok(compiled.schemaText.includes('addressBook'));
+			assert.ok(compiled.manifest.some(m => m.filePath === rng.toString()));
+			const compiledGrammar = await client.loadGrammar(owner, compiled.simplified);
+			assert.equal((await client.validate(document.getText(),
+				{schema: {grammar: compiledGrammar, source: 'test.rng'}})).errorType, 'NO_ERR');
+			await assert.rejects(client.compileGrammar({}, new URL('missing.rng', rng.toString()).toString()));
+
+			// The text of unsaved documents is used instead of the file.
+			const unsaved = {[path.join(path.dirname(rng.fsPath), 'unsaved.xml')]: '<TEI><p xml:id="b"/></TEI>'};
+			const problems = await client.checkIds('<TEI><p xml:id="a"/><ref target="#a unsaved.xml#b unsaved.xml#c"/></TEI>',
+				rng.toString(), ['target'], unsaved);
+			assert.deepEqual(problems.map(p => p.message), ['No element with xml:id "c" in "unsaved.xml"']);
+		} finally {
+			client.dispose();
+		}
+	});
+
+	test('Keep the most recently used schemas and compile them again when they change', async () => {
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sxml-'));
+		const schema = async (name: string) => {
+			await fs.writeFile(path.join(dir, `${name}.rng`),
+				`<element xmlns="http://relaxng.org/ns/structure/1.0" name="${name}"><empty/></element>`);
+			return vscode.Uri.file(path.join(dir, `${name}.rng`)).toString();
+		};
+		const [a, b, c] = [await schema('a'), await schema('b'), await schema('c')];
+		const config = vscode.workspace.getConfiguration('sxml');
+		await config.update('schemaCacheSize', 2, vscode.ConfigurationTarget.Global);
+		const client = new ValidationClient(path.join(__dirname, '..', '..', 'validationWorker.js'));
+		const cache = new SchemaCache(client);
+		const dropped: (string | undefined)[] = [];
+		cache.onDidDrop(stored => dropped.push(stored.rngURI));
+		try {
+			const first = await cache.get(a);
+			await cache.get(b);
+			assert.equal(await cache.get(a), first);
+			await cache.get(c);
+			await sleep(10);
+			assert.deepEqual([cache.has(a), cache.has(b), cache.has(c)], [true, false, true]);
+			assert.deepEqual(dropped, [b]);
+
+			// A newer modification time than when compiled.
+			await fs.writeFile(path.join(dir, 'a.rng'),
+				'<element xmlns="http://relaxng.org/ns/structure/1.0" name="changed"><empty/></element>');
+			await fs.utimes(path.join(dir, 'a.rng'), new Date(), new Date(Date.now() + 60000));
+			const changed = await cache.get(a);
+			assert.notEqual(changed, first);
+			assert.ok(changed?.schemaText?.includes('name="changed"'));
+
+			// Watched schemas are compiled again as soon as they change.
+			const invalidated = new Promise<string>(resolve => cache.onDidInvalidate(resolve));
+			await fs.writeFile(path.join(dir, 'c.rng'),
+				'<element xmlns="http://relaxng.org/ns/structure/1.0" name="watched"><empty/></element>');
+			assert.equal(await Promise.race([invalidated, sleep(5000)]), c);
+			assert.ok((await cache.get(c))?.schemaText?.includes('name="watched"'));
+		} finally {
+			cache.dispose();
+			client.dispose();
+			await config.update('schemaCacheSize', undefined, vscode.ConfigurationTarget.Global);
+		}
+	}).timeout(10000);
+
+	test('Reuse stored schemas unless their sources or the catalog changed', async () => {
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sxml-'));
+		const storage = vscode.Uri.file(path.join(dir, 'storage'));
+		const file = path.join(dir, 'a.rng');
+		const url = vscode.Uri.file(file).toString();
+		await fs.writeFile(file, '<element xmlns="http://relaxng.org/ns/structure/1.0" name="a"><empty/></element>');
+		const client = new ValidationClient(path.join(__dirname, '..', '..', 'validationWorker.js'));
+		const compiled: string[] = [];
+		const compileGrammar = client.compileGrammar.bind(client);
+		client.compileGrammar = (owner, schemaURL, catalog) => {
+			compiled.push(schemaURL);
+			return compileGrammar(owner, schemaURL, catalog);
+		};
+		try {
+			await writeStoredSchema(storage, url, await compileGrammar({}, url));
+			assert.ok(await readStoredSchema(storage, url));
+			const catalog = XMLCatalog.parse(`<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog">
+				<uri name="http://example.com/a.rng" uri="a.rng"/></catalog>`, url);
+			assert.equal(await readStoredSchema(storage, url, catalog), undefined);
+
+			const stored = new SchemaCache(client, storage);
+			assert.ok((await stored.get(url))?.schemaText?.includes('name="a"'));
+			assert.deepEqual(compiled, []);
+			stored.dispose();
+
+			await fs.writeFile(file, '<element xmlns="http://relaxng.org/ns/structure/1.0" name="b"><empty/></element>');
+			assert.equal(await readStoredSchema(storage, url), undefined);
+			const stale = new SchemaCache(client, storage);
+			assert.ok((await stale.get(url))?.schemaText?.includes('name="b"'));
+			assert.deepEqual(compiled, [url]);
+			stale.dispose();
+		} finally {
+			client.dispose();
+		}
+	});
+
+	test('Resume validation from the last checkpoint before a change', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.rng'));
+		const {pattern} = await convertRNGToPattern(new URL(rng.toString()));
+		const cards = Array.from({length: 2000}, (_, i) => i % 500 === 0
+			? `<card><name>${i}</name></card>` : `<card><name>${i}</name><email>${i}@example.com</email></card>`);
+		const text = `<addressBook xmlns:e="http://example.com">${cards.join('\n')}<e:ext/></addressBook>`;
+		const first = await validateWithGrammar(pattern, text);
+		const edited = text.replace('<name>1900</name>', '<name>1900</name><name/>');
+		const resumed = await validateWithGrammar(pattern, edited, {previous: first.snapshot});
+		const full = await validateWithGrammar(pattern, edited);
+		assert.ok(resumed.resumedFrom > 0 && resumed.resumedFrom < edited.indexOf('<name/>'));
+		assert.equal(resumed.errorCount, 5);
+		assert.deepEqual(resumed.problems, full.problems);
+	});
+
+	test('Find duplicate xml:ids across checkpoints when resuming validation', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'ids.rng'));
+		const {pattern} = await convertRNGToPattern(new URL(rng.toString()));
+		const items = Array.from({length: 3000}, (_, i) => `<item xml:id="i${i}">${i}</item>`);
+		const text = `<list>${items.join('\n')}</list>`;
+		const first = await validateWithGrammar(pattern, text);
+		assert.equal(first.errorCount, 0);
+		// Ids after the checkpoint resumed from aren't duplicates, the one before it is.
+		const edited = text.replace('<item xml:id="i2990">', '<item xml:id="i5">dup</item><item xml:id="i2990">');
+		const resumed = await validateWithGrammar(pattern, edited, {previous: first.snapshot});
+		assert.ok(resumed.resumedFrom > 0 && resumed.resumedFrom < edited.indexOf('<item xml:id="i5">dup'));
+		assert.equal(resumed.problems.length, 1);
+		assert.ok(resumed.problems[0].message.startsWith('ID "i5" has already been declared.'));
+		assert.deepEqual(resumed.problems, (await validateWithGrammar(pattern, edited)).problems);
+	});
+
+	test('Report errors found at the end of the document', async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test_incomplete.xml')
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document);
+
+		await vscode.commands.executeCommand('sxml.validate').then( async (context: any) => {
+			await sleep(1000);
+			const ctx = context as vscode.ExtensionContext;
+			const diagnostics = ctx.subscriptions[0] as vscode.DiagnosticCollection;
+			const d = diagnostics.get(uri);
+			assert.ok(d);
+			const required = d.find(diagnostic => diagnostic.message.startsWith('tag required'));
+			assert.ok(required);
+			assert.equal(document.getText(required.range), '<card>');
+		});
+	});
+
+	test('Offer allowed values as quick fixes for an invalid attribute value', async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test_invalid.xml')
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document);
+
+		await vscode.commands.executeCommand('sxml.validate');
+		await sleep(1000);
+		const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+			'vscode.executeCodeActionProvider', uri, new vscode.Range(5, 12, 5, 17));
+		assert.ok(actions);
+		const titles = actions.map(action => action.title);
+		assert.ok(titles.includes('Change value to "person"'));
+		assert.ok(titles.includes('Change value to "company"'));
+	});
+
+	test('Show schema documentation and content model on hover', async () => {
+		const uri = vscode.Uri.file(
+		  path.join(__dirname, testFolderLocation, 'test_invalid.xml')
+		);
+		const document = await vscode.workspace.openTextDocument(uri);
+		await vscode.window.showTextDocument(document);
+
+		await vscode.commands.executeCommand('sxml.validate');
+		await sleep(1000);
+		const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+			'vscode.executeHoverProvider', uri, new vscode.Position(8, 6));
+		assert.ok(hovers);
+		const text = hovers.map(hover => hover.contents.map(c => (c as vscode.MarkdownString).value).join('')).join('');
+		assert.ok(text.includes('External CDATA'));
+		assert.ok(text.includes('**Content:** text'));
+	});
+
+	test('List the required content of an element', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.rng'));
+		const {pattern} = await convertRNGToPattern(new URL(rng.toString()));
+		const elements = Array.from(elementsByName(pattern).values());
+		const named = (name: string) => elements.find(el => el.name.toJSON().name === name) as Element;
+		const card = requiredContent(named('card'));
+		assert.deepEqual(card.attributes, []);
+		assert.deepEqual(card.children.map(child => (child as Element).name.toJSON().name), ['name', 'email']);
+		assert.deepEqual(requiredContent(named('name')).children, []);
+	});
+
+	test('Find xml:ids to suggest, also in unfinished documents', async () => {
+		const ids = xmlIds(`<TEI><person xml:id="p1"/><!-- <person xml:id="old"/> -->
+<p xml:id = 'p2' n="1">see <ref target="#`);
+		assert.deepEqual(ids.map(id => [id.id, id.element]), [['p1', 'person'], ['p2', 'p']]);
+		assert.equal(ids[0].start, 21);
+	});
+
+	test('Report duplicate xml:ids and dangling pointers', async () => {
+		const text = `<TEI><p xml:id="a"/><p xml:id="a"/><ref target="#a #b http://example.com/#c"/></TEI>`;
+		assert.deepEqual(xmlPointers(text, ['target']).map(p => [p.file, p.id]), [['', 'a'], ['', 'b']]);
+
+		const uri = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'ids.xml'));
+		const problems = await idProblems(text, uri.toString(), ['target'], url => fs.readFile(new URL(url), 'utf8'));
+		assert.deepEqual(problems.map(p => p.message), [
+			'Duplicate xml:id "a"', 'Duplicate xml:id "a"', 'No element with xml:id "b"']);
+		assert.equal(problems[2].severity, 'warning');
+	});
+
+	test('Report duplicate xml:ids once when the schema checks them', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'ids.rng'));
+		const {pattern} = await convertRNGToPattern(new URL(rng.toString()));
+		const uri = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'ids.xml'));
+		const text = '<list><item xml:id="a"/><item xml:id="a"/><item xml:id="b"/><item xml:id="b"/></list>';
+		const validated = await validateWithGrammar(pattern, text);
+		assert.deepEqual(duplicateIds(validated.problems), ['a', 'b']);
+		const problems = validated.problems.concat(
+			await idProblems(text, uri.toString(), [], () => Promise.reject(), duplicateIds(validated.problems)));
+		assert.deepEqual(problems.map(p => p.message), [
+			'ID "a" has already been declared. — ', 'ID "b" has already been declared. — ']);
+	});
+
+	test('Expand private URIs declared with prefixDef', async () => {
+		const text = `<TEI><prefixDef ident="psn" matchPattern="([a-z]+)" replacementPattern="persons.xml#$1"/>
+<p corresp="#a psn:bob"/></TEI>`;
+		const pointers = xmlPointers(text, ['corresp']);
+		assert.deepEqual(pointers.map(p => [p.file, p.id]), [['', 'a'], ['persons.xml', 'bob']]);
+		assert.equal(text.slice(pointers[1].idStart, pointers[1].idEnd), 'bob');
+	});
+
+	test('Outline elements with labels, also when not well-formed', async () => {
+		const text = `<TEI><text><body><div type="chapter"><head>Chapter <hi>One</hi></head><p/></div>
+<div type="poem"><lg n="1"></div><measure n="12"><note>`;
+		const rules = labelRules({'div': '@type', 'div[@type="chapter"]': 'head', 'lg': '@n'});
+		const body = documentSymbols(text, rules, offset => new vscode.Position(0, offset))[0].children[0].children[0];
+		assert.deepEqual(body.children.map(s => s.name), ['div Chapter One', 'div poem', 'measure']);
+		assert.equal(body.children[1].children[0].name, 'lg 1');
+		assert.equal(body.children[0].selectionRange.end.character, text.indexOf('<head>'));
+		assert.equal(body.children[2].range.end.character, text.length);
+	});
+
+	test('Expand the selection from text to elements', async () => {
+		const text = `<p>Some <app><lem wit="#A">text</lem><rdg>other</rdg></app>`;
+		const spans = selectionSpans(text, markupTree(text), text.indexOf('ext'));
+		assert.deepEqual(spans.map(([start, end]) => text.slice(start, end)), [
+			'text', '<lem wit="#A">text</lem>', '<lem wit="#A">text</lem><rdg>other</rdg>',
+			'<app><lem wit="#A">text</lem><rdg>other</rdg></app>', 'Some <app><lem wit="#A">text</lem><rdg>other</rdg></app>', text]);
+	});
+
+	test('Write names with the prefixes in scope and declare other namespaces once', async () => {
+		const nameResolver = new DefaultNameResolver();
+		nameResolver.definePrefix('e', 'http://example.com');
+		const namer = namespaceNamer(nameResolver);
+		assert.deepEqual(namer.element('http://example.com', 'ext'), {qname: 'e:ext', xmlns: ''});
+		assert.deepEqual(namer.attribute('http://example.com', 'id'), {qname: 'e:id', xmlns: ''});
+		assert.deepEqual(namer.attribute('http://example.com/meta', 'lang'),
+			{qname: 'ns1:lang', xmlns: 'xmlns:ns1="http://example.com/meta" '});
+		assert.deepEqual(namer.attribute('http://example.com/meta', 'date'), {qname: 'ns1:date', xmlns: ''});
+		assert.deepEqual(namer.attribute('http://example.com/other', 'a'),
+			{qname: 'ns2:a', xmlns: 'xmlns:ns2="http://example.com/other" '});
+		// Separate insertions declare the namespace again.
+		assert.equal(namespaceNamer(nameResolver).nested().attribute('http://example.com/meta', 'date').xmlns,
+			'xmlns:ns1="http://example.com/meta" ');
+	});
+
+	test('Suggest elements and attributes from other namespaces', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'foreign.rng'));
+		const {pattern} = await convertRNGToPattern(new URL(rng.toString()));
+		const uri = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'foreign.xml'));
+		const complete = async (text: string, offset: number, request: string) =>
+			(await getCompletions(pattern, text, new vscode.Position(0, offset), offset, request, uri))
+				.map(item => [item.label, item.insertText]);
+
+		const content = '<doc xmlns="http://example.com/doc"><';
+		assert.deepEqual(await complete(content, content.length, 'TAG'), [['math http://www.w3.org/1998/Math/MathML',
+			'math xmlns="http://www.w3.org/1998/Math/MathML"></math>']]);
+		const undeclared = '<doc xmlns="http://example.com/doc" >';
+		assert.deepEqual(await complete(undeclared, undeclared.length - 1, 'ATT'), [
+			['$(mention)ns1:lang http://example.com/meta', 'xmlns:ns1="http://example.com/meta" ns1:lang=""'],
+			['$(mention)ns1:date http://example.com/meta', 'xmlns:ns1="http://example.com/meta" ns1:date=""'],
+		]);
+		const declared = '<doc xmlns="http://example.com/doc" xmlns:m="http://example.com/meta" >';
+		assert.deepEqual(await complete(declared, declared.length - 1, 'ATT'),
+			[['$(mention)m:lang', 'm:lang=""'], ['$(mention)m:date', 'm:date=""']]);
+	});
+
+	test('Suggest the xml:ids of the document for references', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'ids.rng'));
+		const {pattern} = await convertRNGToPattern(new URL(rng.toString()));
+		const uri = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'ids.xml'));
+		// The cursor is between the quotes of the value.
+		const complete = async (before: string) =>
+			(await getCompletions(pattern, `${before}">C</item></list>`, new vscode.Position(0, before.length),
+				before.length, 'VAL', uri))
+				.filter(item => item.kind === vscode.CompletionItemKind.Reference).map(item => item.label);
+
+		const items = '<list><item xml:id="a">A</item><item xml:id="b">B</item>';
+		assert.deepEqual(await complete(`${items}<item ref="`), ['a', 'b']);
+		// IDs share their pattern with IDREFs, but new ones don't point at existing ones.
+		assert.deepEqual(await complete(`${items}<item xml:id="`), []);
+	});
+
+	test('List the elements to wrap a selection with', async () => {
+		const rng = vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.rng'));
+		const {pattern} = await convertRNGToPattern(new URL(rng.toString()));
+		const document = await vscode.workspace.openTextDocument(
+			vscode.Uri.file(path.join(__dirname, testFolderLocation, 'test.xml')));
+		const text = document.getText();
+		// Selections come in any order.
+		const [inName, beforeExt] = wrapChoices(pattern, text, [text.indexOf('John'), text.indexOf('<e:ext>')]);
+		assert.ok(beforeExt);
+		assert.deepEqual(Array.from(beforeExt.values()).map(c => c.qualified.qname + c.qualified.xmlns), ['card', 'e:ext']);
+		assert.equal(inName?.size, 0);
+		const broken = '<addressBook><card></addressBook><card>';
+		const [unparsed] = wrapChoices(pattern, broken, [broken.length]);
+		assert.equal(unparsed, undefined);
+	});
+
+	test('Validate files without VS Code', async () => {
+		const dataDir = path.join(__dirname, testFolderLocation);
+		const baseUri = vscode.Uri.file(path.join(dataDir, 'test_sch.xml')).toString();
+		const text = await fs.readFile(path.join(dataDir, 'test_sch.xml'), 'utf8');
+		const result = await validate(text, {baseUri});
+		assert.equal(result.schema, vscode.Uri.file(path.join(dataDir, 'test.rng')).toString());
+		assert.deepEqual(result.schematrons, [vscode.Uri.file(path.join(dataDir, 'rules.sch')).toString()]);
+		assert.equal(result.errorType, ERR_VALID);
+		// The warning doesn't count as an error.
+		assert.equal(result.errorCount, 1);
+		assert.deepEqual(result.problems.map(p => [p.severity, p.range.start.line, p.source]),
+			[['error', 8, 'rules.sch'], ['warning', 10, 'rules.sch']]);
+
+		const invalid = await validate('<addressBook><card/></addressBook>', {schemaUrl: 'test.rng', baseUri});
+		assert.equal(invalid.errorType, ERR_VALID);
+		assert.equal(invalid.problems[0].source, 'test.rng');
+		const missing = await validate('<a/>', {schemaUrl: 'missing.rng', baseUri});
+		assert.equal(missing.errorType, ERR_SCHEMA);
+		assert.equal(missing.errorCount, 1);
+		// Schematron rules that fail while checking are reported like schemas that don't compile.
+		const failing = await validate(
+			'<?xml-model href="failing_rules.sch" schematypens="http://purl.oclc.org/dsdl/schematron"?><a>abc</a>', {baseUri});
+		assert.equal(failing.errorCount, 1);
+		assert.ok(failing.problems[0].message.startsWith('Could not check Schematron'));
+
+		// Schemas that failed to compile are compiled again once fixed.
+		const fixedDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sxml-'));
+		const fixedUri = vscode.Uri.file(path.join(fixedDir, 'doc.xml')).toString();
+		await fs.writeFile(path.join(fixedDir, 'fixed.rng'), '<element xmlns="http://relaxng.org/ns/structure/1.0" name="a">');
+		assert.equal((await validate('<a/>', {schemaUrl: 'fixed.rng', baseUri: fixedUri})).errorType, ERR_SCHEMA);
+		await fs.writeFile(path.join(fixedDir, 'fixed.rng'), '<element xmlns="http://relaxng.org/ns/structure/1.0" name="a"><empty/></element>');
+		assert.equal((await validate('<a/>', {schemaUrl: 'fixed.rng', baseUri: fixedUri})).errorType, NO_ERR);
+	});
+
+	test('List files and report results from the command line', async () => {
+		assert.ok(globToRegExp('**/*.xml').test('a/b/c.xml'));
+		assert.ok(globToRegExp('**/*.xml').test('c.xml'));
+		assert.ok(globToRegExp('data/test_{sch,rnc}.xml').test('data/test_rnc.xml'));
+		assert.ok(!globToRegExp('*.xml').test('data/test.xml'));
+		const dataDir = path.join(__dirname, testFolderLocation);
+		const files = await expandPattern(path.join(dataDir, 'test_sch*.xml'));
+		assert.deepEqual(files.map(f => path.basename(f)), ['test_sch.xml', 'test_sch_phase.xml']);
+
+		const results = [{file: 'a.xml', schematrons: [], errorType: ERR_VALID, errorCount: 1, problems: [{
+			message: 'Missing <b> & more', severity: 'error' as const, source: 'test.rng',
+			range: {start: {line: 1, character: 2}, end: {line: 1, character: 4}},
+		}]}, {file: 'b.xml', schematrons: [], errorType: NO_ERR, errorCount: 0, problems: []}];
+		assert.equal(formatResults(results, 'human'),
+			'a.xml:2:3: error: Missing <b> & more (test.rng)\n1 of 2 files with errors (1 error).');
+		assert.equal(JSON.parse(formatResults(results, 'json'))[0].problems[0].source, 'test.rng');
+		const junit = formatResults(results, 'junit');
+		assert.ok(junit.includes('<testsuites name="sxml-validate" tests="2" failures="1">'));
+		assert.ok(junit.includes('2:3: error: Missing &lt;b&gt; &amp; more (test.rng)</failure>'));
+		assert.ok(junit.includes('<testcase classname="sxml-validate" name="b.xml"/>'));
+	});
+
+	test('Validate files of the workspace without opening them', async () => {
+		const uri = vscode.Uri.file(path.join(__dirname, '../../../src/test/workspace/unopened.xml'));
+		const isOpen = () => vscode.workspace.textDocuments.some(doc => doc.uri.toString() === uri.toString());
+		assert.ok(!isOpen());
+		const context = await vscode.commands.executeCommand('sxml.validateWorkspace') as vscode.ExtensionContext;
+		const diagnostics = context.subscriptions[0] as vscode.DiagnosticCollection;
+		const d = diagnostics.get(uri);
+		assert.ok(d);
+		assert.equal(d.length, 1);
+		assert.ok(d[0].message.startsWith('tag required'));
+		assert.equal(d[0].source, 'test.rng');
+		assert.equal(d[0].range.start.line, 5);
+		assert.ok(!isOpen());
+	}).timeout(10000);
+
+	test('Keep the diagnostics of open files when validating the workspace', async () => {
+		const uri = vscode.Uri.file(path.join(__dirname, '../../../src/test/workspace/unopened.xml'));
+		await vscode.workspace.openTextDocument(uri);
+		// Let the validation of the opened file finish.
+		await sleep(1000);
+		const context = await vscode.commands.executeCommand('sxml.validateWorkspace') as vscode.ExtensionContext;
+		const diagnostics = context.subscriptions[0] as vscode.DiagnosticCollection;
+		// Stands for diagnostics of unsaved text, which the files on disk must not replace.
+		const edited = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), 'edited', vscode.DiagnosticSeverity.Error);
+		diagnostics.set(uri, [edited]);
+		await vscode.commands.executeCommand('sxml.validateWorkspace');
+		assert.deepEqual(diagnostics.get(uri)?.map(d => d.message), ['edited']);
+	}).timeout(10000);
 
 	test('Validate a complex XML file with complex schema', async () => {
 		// open file
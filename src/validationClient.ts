@@ -0,0 +1,205 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { XMLCatalog } from './catalog';
+import { SimplifiedSchema, StoredNode } from './simplifiedSchema';
+import { Problem, ValidationResult } from './validationEngine';
+import { SchematronRef, WorkerRequest, WorkerResponse } from './validationWorker';
+import { ValidationCancelled } from './xmlEvents';
+
+// Requests that get a response, without the id the client assigns.
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type Request = WithoutId<Exclude<WorkerRequest, {type: 'unload' | 'forget' | 'cancel'}>>;
+
+interface Pending {
+  resolve: (response: WorkerResponse) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Validates documents in a worker thread, so that walking large documents and
+ * evaluating Schematron doesn't hold up the editor. Grammars and Schematron
+ * rules are loaded into the worker once for each object they come from, e.g.
+ * a compiled schema of the cache, until they are unloaded. The worker is
+ * started when first needed, and again if it stops.
+ */
+class ValidationClient {
+  private worker?: Worker;
+  private nextId = 1;
+  private readonly pending = new Map<number, Pending>();
+  private readonly script: string;
+  private nextOwner = 1;
+  private readonly owners = new WeakMap<object, number>();
+  // What the worker loaded by owner and key, with whether it succeeded.
+  private loaded = new Map<number, Map<string, Promise<boolean>>>();
+
+  constructor(script = path.join(__dirname, 'validationWorker.js')) {
+    this.script = script;
+  }
+
+  /** Loads a simplified schema, returning the key of its grammar or undefined if it can't be built. */
+  public loadGrammar(owner: object, simplified: StoredNode): Promise<string | undefined> {
+    return this.load(owner, 'grammar', key => ({type: 'loadGrammar', key, simplified}));
+  }
+
+  /**
+   * Compiles a schema and keeps its grammar for the owner, like loadGrammar.
+   * Returns the schema as plain data, to load it from should the worker restart.
+   */
+  public async compileGrammar(owner: object, url: string, catalog?: XMLCatalog): Promise<SimplifiedSchema> {
+    const {id, keys} = this.loadedFor(owner);
+    const key = `${id} grammar`;
+    const response = this.request({type: 'compileGrammar', key, url, catalog: catalog?.entries});
+    keys.set(key, response.then(() => true, () => false));
+    return (await response as Extract<WorkerResponse, {type: 'compiled'}>).schema;
+  }
+
+  /**
+   * Loads Schematron rules from a Schematron or RELAX NG schema for a phase,
+   * returning their key or undefined if they can't be compiled.
+   */
+  public loadSchematron(owner: object, text: string, phase?: string): Promise<string | undefined> {
+    return this.load(owner, `schematron ${phase ?? ''}`, key => ({type: 'loadSchematron', key, text, phase}));
+  }
+
+  /** Drops what was loaded for the owner. */
+  public unload(owner: object): void {
+    const id = this.owners.get(owner);
+    const keys = id !== undefined ? this.loaded.get(id) : undefined;
+    if (id === undefined || !keys) {
+      return;
+    }
+    for (const key of keys.keys()) {
+      this.worker?.postMessage({type: 'unload', key} as WorkerRequest);
+    }
+    this.loaded.delete(id);
+  }
+
+  /**
+   * Validates against a loaded grammar, or reports ERR_SCHEMA when there is
+   * none. Without a schema, only checks well-formedness. Validations of the
+   * same document resume after the part that didn't change since the last one.
+   */
+  public async validate(xmlSource: string, options: {schema?: {grammar?: string, source: string},
+    document?: string, signal?: AbortSignal} = {}): Promise<ValidationResult> {
+    const {schema, document, signal} = options;
+    const response = await this.request({type: 'validate', xmlSource, schema, document}, signal);
+    return (response as Extract<WorkerResponse, {type: 'validated'}>).result;
+  }
+
+  /** Drops what the worker kept from validating the document. */
+  public forget(document: string): void {
+    this.worker?.postMessage({type: 'forget', document} as WorkerRequest);
+  }
+
+  public async schematron(xmlSource: string, schematrons: SchematronRef[], signal?: AbortSignal): Promise<Problem[]> {
+    if (schematrons.length === 0) {
+      return [];
+    }
+    const response = await this.request({type: 'schematron', xmlSource, schematrons}, signal);
+    return (response as Extract<WorkerResponse, {type: 'checked'}>).problems;
+  }
+
+  /**
+   * Checks xml:ids and the pointers to them. Documents pointed to are read
+   * from disk, unless their unsaved text is given by path. Duplicates of
+   * checkedIds, already reported by validation, are left out.
+   */
+  public async checkIds(xmlSource: string, url: string, attributes: string[],
+    unsaved: Record<string, string> = {}, checkedIds: string[] = [], signal?: AbortSignal): Promise<Problem[]> {
+    const response = await this.request({type: 'checkIds', xmlSource, url, attributes, unsaved, checkedIds}, signal);
+    return (response as Extract<WorkerResponse, {type: 'checked'}>).problems;
+  }
+
+  public dispose(): void {
+    this.worker?.terminate();
+    this.stopped(new Error("Validation worker disposed"));
+  }
+
+  // The id of the owner and what was loaded for it.
+  private loadedFor(owner: object): {id: number, keys: Map<string, Promise<boolean>>} {
+    let id = this.owners.get(owner);
+    if (id === undefined) {
+      id = this.nextOwner++;
+      this.owners.set(owner, id);
+    }
+    const keys = this.loaded.get(id) ?? new Map<string, Promise<boolean>>();
+    this.loaded.set(id, keys);
+    return {id, keys};
+  }
+
+  private async load(owner: object, kind: string, request: (key: string) => Request): Promise<string | undefined> {
+    const {id, keys} = this.loadedFor(owner);
+    const key = `${id} ${kind}`;
+    let loaded = keys.get(key);
+    if (!loaded) {
+      loaded = this.request(request(key)).then(r => r.type === 'loaded' && r.ok, () => false);
+      keys.set(key, loaded);
+    }
+    return await loaded ? key : undefined;
+  }
+
+  private request(message: Request, signal?: AbortSignal): Promise<WorkerResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(new ValidationCancelled());
+    }
+    const worker = this.start();
+    const id = this.nextId++;
+    return new Promise<WorkerResponse>((resolve, reject) => {
+      const onAbort = () => {
+        worker.postMessage({type: 'cancel', id} as WorkerRequest);
+        // Don't wait for the worker, its response is dropped.
+        this.pending.delete(id);
+        reject(new ValidationCancelled());
+      };
+      signal?.addEventListener('abort', onAbort);
+      this.pending.set(id, {
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort);
+          if (response.type === 'cancelled') {
+            reject(new ValidationCancelled());
+          } else if (response.type === 'failed') {
+            reject(new Error(response.message));
+          } else {
+            resolve(response);
+          }
+        },
+        reject: err => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(err);
+        },
+      });
+      worker.postMessage({...message, id} as WorkerRequest);
+    });
+  }
+
+  private start(): Worker {
+    if (this.worker) {
+      return this.worker;
+    }
+    const worker = new Worker(this.script);
+    worker.on('message', (response: WorkerResponse) => {
+      const pending = this.pending.get(response.id);
+      this.pending.delete(response.id);
+      pending?.resolve(response);
+    });
+    worker.on('error', err => console.error("Validation worker failed", err));
+    worker.on('exit', code => {
+      if (this.worker === worker) {
+        this.stopped(new Error(`Validation worker stopped with code ${code}`));
+      }
+    });
+    this.worker = worker;
+    return worker;
+  }
+
+  // Fails the requests in progress. A new worker has nothing loaded.
+  private stopped(err: Error): void {
+    this.worker = undefined;
+    this.loaded = new Map();
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    pending.forEach(p => p.reject(err));
+  }
+}
+
+export default ValidationClient;
@@ -0,0 +1,417 @@
+import { DefaultNameResolver, Grammar, GrammarWalker, ValidationError } from 'salve-annos';
+import { SaxesParser } from 'saxes';
+import Schematron from 'node-xsl-schematron';
+import { LocationResolver } from './svrlLocation';
+import { SourceLines, SourceRange } from './sourceSpans';
+import { fireXMLEventsInChunks, ParseState, sourceOffset, Span, StartTag, ValidationCancelled,
+  writeInChunks } from './xmlEvents';
+
+export const ERR_VALID = 'ERR_VALID';
+export const ERR_WELLFORM = 'ERR_WELLFORM';
+export const ERR_SCHEMA = 'ERR_SCHEMA';
+export const NO_ERR = 'NO_ERR';
+
+// Characters between checkpoints, at most about this much is validated again
+// before the first change to a document.
+const CHECKPOINT_INTERVAL = 32 * 1024;
+
+export type SchematronValidator = InstanceType<typeof Schematron>;
+
+export type Severity = 'error' | 'warning' | 'information' | 'hint';
+
+export interface SchemaErrorName {
+  ns: string;
+  name: string;
+}
+
+// What went wrong during validation, kept for quick fixes.
+export interface SchemaErrorData {
+  // The salve event that failed, or "end" for errors at the end of the document.
+  event: string;
+  // The error message without the names, e.g. "tag not allowed here".
+  kind: string;
+  names: SchemaErrorName[];
+  span: Span;
+  // For start tag errors, the element name in the end tag.
+  endNameSpan?: Span;
+}
+
+/**
+ * A problem found in a document. It only holds plain data, so that it can be
+ * sent from the validation worker and shown by any editor.
+ */
+export interface Problem {
+  message: string;
+  severity: Severity;
+  range: SourceRange;
+  // Name of the schema reporting it.
+  source?: string;
+  // Id of the Schematron rule, with the URL of its documentation if any.
+  code?: string | {value: string, target: string};
+  // Set for schema errors.
+  data?: SchemaErrorData;
+}
+
+export interface ValidationResult {
+  errorType: string;
+  errorCount: number;
+  problems: Problem[];
+}
+
+// A point the validation of a document can resume from.
+interface Checkpoint {
+  state: ParseState;
+  walker: GrammarWalker<DefaultNameResolver>;
+  // Number of problems found before it.
+  problemCount: number;
+  // Indexes of the problems in the start tags of the open elements, which
+  // their end tags complete.
+  startTagErrors: number[][];
+}
+
+/** What a validation leaves behind for the next validation of the same document. */
+export interface ValidationSnapshot {
+  tree: Grammar;
+  xmlSource: string;
+  problems: Problem[];
+  checkpoints: Checkpoint[];
+}
+
+export interface GrammarValidation extends ValidationResult {
+  snapshot?: ValidationSnapshot;
+  // Offset validation resumed from, 0 when it started over.
+  resumedFrom: number;
+}
+
+export interface GrammarValidationOptions {
+  // Name of the schema, for problems.
+  source?: string;
+  signal?: AbortSignal;
+  // The previous validation of the document, to resume from the last
+  // checkpoint before the first change.
+  previous?: ValidationSnapshot;
+}
+
+// Schematron rules to check, with the schema they come from.
+export interface SchematronSource {
+  schematron: SchematronValidator;
+  url: string;
+  source: string;
+}
+
+// Fields of a failed assert or successful report from node-xsl-schematron.
+interface SchematronResult {
+  location: string;
+  text: string;
+  test?: string;
+  id?: string;
+  role?: string;
+  flag?: string;
+  see?: string;
+}
+
+// Schematron roles and flags mapped to severities.
+const SCHEMATRON_SEVERITIES: {[role: string]: Severity} = {
+  fatal: 'error',
+  error: 'error',
+  warning: 'warning',
+  warn: 'warning',
+  info: 'information',
+  information: 'information',
+  hint: 'hint',
+};
+
+// Root element of a RELAX NG schema, after the prolog.
+export const RNG_ROOT = /^\uFEFF?(?:\s|<\?.*?\?>|<!--.*?-->)*<(?:[\w.-]+:)?(?:grammar|element)\b/s;
+
+// Where the parser stopped, for well-formedness errors.
+function parserRange(parser: SaxesParser<{xmlns: true, position: true}>): SourceRange {
+  return {
+    start: {line: parser.line - 1, character: 0},
+    end: {line: parser.line - 1, character: parser.column},
+  };
+}
+
+export async function checkWellFormedness(xmlSource: string, signal?: AbortSignal): Promise<ValidationResult> {
+  const problems: Problem[] = [];
+  const parser = new SaxesParser({ xmlns: true, position: true });
+  try {
+    await writeInChunks(parser, xmlSource, signal);
+  } catch(err: unknown) {
+    if (err instanceof ValidationCancelled) {
+      throw err;
+    }
+    problems.push({message: (err as Error).message, severity: 'error', range: parserRange(parser)});
+  }
+  return {
+    errorType: problems.length > 0 ? ERR_WELLFORM : NO_ERR,
+    errorCount: problems.length,
+    problems,
+  };
+}
+
+// The xml:ids a walker has seen so far, private and untyped in salve.
+interface WithIdStack {
+  idStack?: Set<string>;
+}
+
+// salve shares the xml:ids seen so far between clones of a walker, so copy them.
+function cloneWalker(walker: GrammarWalker<DefaultNameResolver>): GrammarWalker<DefaultNameResolver> {
+  const clone = walker.clone();
+  const ids = (walker as unknown as WithIdStack).idStack;
+  if (ids) {
+    (clone as unknown as WithIdStack).idStack = new Set(ids);
+  }
+  return clone;
+}
+
+function firstDifference(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < length && a.charCodeAt(i) === b.charCodeAt(i)) {
+    i++;
+  }
+  return i;
+}
+
+// The last checkpoint of the previous validation before the first change.
+function resumePoint(tree: Grammar, xmlSource: string, previous?: ValidationSnapshot): number {
+  if (!previous || previous.tree !== tree) {
+    return -1;
+  }
+  const changedFrom = firstDifference(previous.xmlSource, xmlSource);
+  let i = previous.checkpoints.length - 1;
+  while (i >= 0 && previous.checkpoints[i].state.offset > changedFrom) {
+    i--;
+  }
+  return i;
+}
+
+/**
+ * Validates a document against a grammar, or reports ERR_SCHEMA when the
+ * schema could not be compiled.
+ *
+ * Checkpoints are kept along the way, so that the next validation of the
+ * document can resume from the last one before the first change, keeping the
+ * problems found before it.
+ */
+export async function validateWithGrammar(tree: Grammar | void, xmlSource: string,
+  options: GrammarValidationOptions = {}): Promise<GrammarValidation> {
+  if (!tree) {
+    return {errorType: ERR_SCHEMA, errorCount: 1, problems: [], resumedFrom: 0};
+  }
+  const {source, signal, previous} = options;
+
+  const parser = new SaxesParser({ xmlns: true, position: true });
+  const resumeIndex = resumePoint(tree, xmlSource, previous);
+  const checkpoints = previous && resumeIndex >= 0 ? previous.checkpoints.slice(0, resumeIndex + 1) : [];
+  const resume = checkpoints[checkpoints.length - 1];
+  // Problems before the checkpoint are kept, copied since end tags complete some.
+  const problems: Problem[] = resume && previous
+    ? previous.problems.slice(0, resume.problemCount).map(p => ({...p, data: p.data && {...p.data}}))
+    : [];
+  const startTagErrors: SchemaErrorData[][] = resume
+    ? resume.startTagErrors.map(indexes => indexes.map(i => {
+      const data = problems[i].data as SchemaErrorData;
+      delete data.endNameSpan;
+      return data;
+    }))
+    : [];
+  const walker = resume ? cloneWalker(resume.walker) : tree.newWalker(new DefaultNameResolver());
+  const nameResolver = walker.nameResolver;
+  let errorType = problems.length ? ERR_VALID : NO_ERR;
+  let errorCount = problems.length;
+  // The file may not be open (e.g. when validating the workspace), so use the source text.
+  const lines = new SourceLines(xmlSource);
+  // Where each start tag error is in problems, to take checkpoints with.
+  const problemIndexes = new Map<SchemaErrorData, number>();
+  problems.forEach((p, i) => p.data && problemIndexes.set(p.data, i));
+
+  function reportErrors(ret: readonly ValidationError[], event: string, span: Span): SchemaErrorData[] {
+    errorType = ERR_VALID;
+    errorCount += ret.length;
+
+    const reported: SchemaErrorData[] = [];
+    for (const err of ret) {
+      const names = err.getNames().map(n => n.toJSON());
+      const namesMsg = names.map((name: any) => {
+          let ns = name.ns ? `(${name.ns})` : '';
+          return `"${name.name}" ${ns}`;
+      }).join(' ');
+
+      // Quick fixes rely on what went wrong and where.
+      const data: SchemaErrorData = {
+        event,
+        kind: err.msg,
+        names: names.filter((n: any) => typeof n.name === 'string').map((n: any) => ({ns: n.ns ?? '', name: n.name})),
+        span,
+      };
+      reported.push(data);
+      problemIndexes.set(data, problems.length);
+      problems.push({
+        message: `${err.msg} — ${namesMsg}`,
+        severity: 'error',
+        range: lines.range(span[0], span[1]),
+        source,
+        data,
+      });
+    }
+    return reported;
+  }
+
+  try {
+    await fireXMLEventsInChunks(parser, xmlSource, nameResolver, {
+      fireEvent: (name: string, args: string[], span: Span) => {
+        const ret = walker.fireEvent(name, args);
+        const reported = ret instanceof Array ? reportErrors(ret, name, span) : [];
+        if (name === 'enterStartTag') {
+          startTagErrors.push(reported);
+        } else if (name === 'endTag') {
+          const endName = xmlSource.slice(span[0], span[1]).match(/^<\/([^\s>]+)/);
+          for (const data of startTagErrors.pop() ?? []) {
+            if (endName) {
+              data.endNameSpan = [span[0] + 2, span[0] + 2 + endName[1].length];
+            }
+          }
+        }
+      },
+      end: (tag?: StartTag) => {
+        const result = walker.end();
+        if (result !== false) {
+          // Point at the innermost unclosed element, or else the root element.
+          reportErrors(result, 'end', tag ? [tag.start, tag.end] : [0, 0]);
+        }
+      },
+      checkpoint: (offset: number, state: () => ParseState) => {
+        const last = checkpoints[checkpoints.length - 1];
+        if (offset - (last ? last.state.offset : 0) >= CHECKPOINT_INTERVAL) {
+          checkpoints.push({
+            state: state(),
+            walker: cloneWalker(walker),
+            problemCount: problems.length,
+            startTagErrors: startTagErrors.map(errors => errors.map(data => problemIndexes.get(data) as number)),
+          });
+        }
+      },
+    }, signal, resume?.state);
+  } catch(err) {
+    if (err instanceof ValidationCancelled) {
+      throw err;
+    }
+    errorCount++;
+    errorType = ERR_WELLFORM;
+    const position = lines.position(sourceOffset(parser, resume?.state));
+    // saxes starts messages with the line and column it got to, which are off when resuming.
+    const message = (err as Error).message;
+    problems.push({
+      message: resume ? message.replace(/^\d+:\d+: /, `${position.line + 1}:${position.character}: `) : message,
+      severity: 'error',
+      range: {start: {line: position.line, character: 0}, end: position},
+    });
+  }
+
+  return {
+    errorType,
+    errorCount,
+    problems,
+    // Checkpoints stay valid up to a well-formedness error.
+    snapshot: {tree, xmlSource, problems, checkpoints},
+    resumedFrom: resume ? resume.state.offset : 0,
+  };
+}
+
+/**
+ * Lists the IDs that validation against a grammar found declared more than
+ * once. salve only checks attributes typed xsd:ID, and reports each repeat.
+ */
+export function duplicateIds(problems: Problem[]): string[] {
+  const ids: string[] = [];
+  for (const {data} of problems) {
+    const duplicate = data?.event === 'attributeValue' && data.kind.match(/^ID "(.*)" has already been declared\.$/);
+    if (duplicate && !ids.includes(duplicate[1])) {
+      ids.push(duplicate[1]);
+    }
+  }
+  return ids;
+}
+
+// Makes the given phase (or #ALL) the default phase of a Schematron schema,
+// which is the one used for validation. Returns undefined when the phase isn't
+// defined.
+export function withPhase(schText: string, phase: string): string | undefined {
+  const escaped = phase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (phase !== '#ALL' && !new RegExp(`<(?:[\\w.-]+:)?phase\\b[^>]*\\bid\\s*=\\s*["']${escaped}["']`).test(schText)) {
+    return;
+  }
+  return schText.replace(/<((?:[\w.-]+:)?schema)\b([^>]*?)(\/?)>/, (match: string, name: string, attributes: string, close: string) => {
+    const others = attributes.replace(/\sdefaultPhase\s*=\s*(["']).*?\1/, '');
+    return `<${name}${others} defaultPhase="${phase}"${close}>`;
+  });
+}
+
+/**
+ * Compiles Schematron rules, from a Schematron schema or the rules embedded
+ * in a RELAX NG schema, optionally for a phase other than the default one.
+ */
+export async function compileSchematron(text: string, phase?: string): Promise<SchematronValidator> {
+  // Each schema gets its own Schematron instance since the extracted rules
+  // are kept by the instance once set.
+  const schematron = new Schematron();
+  const schText = RNG_ROOT.test(text) ? await schematron._extractSchFromRNG(text) : text;
+  const phased = phase ? withPhase(schText, phase) : undefined;
+  if (phase && !phased) {
+    console.log("Schematron phase not found, using the default phase", phase);
+  }
+  await schematron.setSchematron(phased ?? schText);
+  return schematron;
+}
+
+// Severity from the role of the assert or report, or else its flag. Defaults to error.
+function schematronSeverity(result: SchematronResult): Severity {
+  for (const value of [result.role, result.flag]) {
+    const severity = value ? SCHEMATRON_SEVERITIES[value.toLowerCase()] : undefined;
+    if (severity !== undefined) {
+      return severity;
+    }
+  }
+  return 'error';
+}
+
+// The rule id as code, linking to the see attribute when there is one.
+function schematronCode(result: SchematronResult, schemaURL: string): Problem['code'] {
+  if (result.see) {
+    try {
+      return {value: result.id ?? result.see, target: new URL(result.see, schemaURL).toString()};
+    } catch(err) {
+      console.log("Invalid see attribute", result.see);
+    }
+  }
+  return result.id;
+}
+
+export async function schematronProblems(schematrons: SchematronSource[], xmlSource: string,
+  signal?: AbortSignal): Promise<Problem[]> {
+  const problems: Problem[] = [];
+  if (schematrons.length === 0) {
+    return problems;
+  }
+  const resolver = new LocationResolver(xmlSource);
+  for (const {schematron, url, source} of schematrons) {
+    // Schematron can't be interrupted, but the next schema needn't start.
+    if (signal?.aborted) {
+      throw new ValidationCancelled();
+    }
+    const errors: SchematronResult[] | undefined = await schematron.validate(xmlSource);
+    for (const err of errors ?? []) {
+      problems.push({
+        message: err.text,
+        severity: schematronSeverity(err),
+        // Results that can't be located are shown at the start of the document.
+        range: resolver.resolve(err.location) ?? {start: {line: 0, character: 0}, end: {line: 0, character: 0}},
+        source,
+        code: schematronCode(err, url),
+      });
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { ValidationCancelled } from './xmlEvents';
+
+/**
+ * A validation of a document. Only the latest generation of a document is
+ * current; older ones are aborted and their results must be dropped.
+ */
+export interface ValidationRun {
+  generation: number;
+  signal: AbortSignal;
+  isCurrent(): boolean;
+}
+
+interface DocumentState {
+  generation: number;
+  controller?: AbortController;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Runs validations per document, waiting for typing to pause before starting
+ * one, and cancelling the one in progress when a newer one is scheduled.
+ */
+class ValidationScheduler implements vscode.Disposable {
+  private readonly documents = new Map<string, DocumentState>();
+  private readonly validate: (document: vscode.TextDocument, run: ValidationRun) => Promise<void>;
+
+  constructor(validate: (document: vscode.TextDocument, run: ValidationRun) => Promise<void>) {
+    this.validate = validate;
+  }
+
+  /** Validates the document after delay milliseconds, or the `sxml.validationDelay` setting. */
+  public schedule(document: vscode.TextDocument, delay?: number): void {
+    const key = document.uri.toString();
+    const state = this.supersede(key);
+    const wait = delay ?? vscode.workspace.getConfiguration("sxml").get("validationDelay") as number ?? 0;
+    state.timer = setTimeout(() => this.run(key, state, document), Math.max(0, wait));
+  }
+
+  /** Stops the pending or running validation of the document. */
+  public cancel(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    this.supersede(key);
+    this.documents.delete(key);
+  }
+
+  public dispose(): void {
+    for (const key of Array.from(this.documents.keys())) {
+      this.supersede(key);
+    }
+    this.documents.clear();
+  }
+
+  // Starts a new generation, dropping the previous one.
+  private supersede(key: string): DocumentState {
+    const previous = this.documents.get(key);
+    if (previous) {
+      clearTimeout(previous.timer);
+      previous.controller?.abort();
+    }
+    const state: DocumentState = {generation: (previous?.generation ?? 0) + 1};
+    this.documents.set(key, state);
+    return state;
+  }
+
+  private run(key: string, state: DocumentState, document: vscode.TextDocument): void {
+    state.timer = undefined;
+    const controller = new AbortController();
+    state.controller = controller;
+    const run: ValidationRun = {
+      generation: state.generation,
+      signal: controller.signal,
+      isCurrent: () => !controller.signal.aborted && this.documents.get(key) === state,
+    };
+    this.validate(document, run).catch(err => {
+      if (!(err instanceof ValidationCancelled)) {
+        console.error(`Could not validate ${key}`, err);
+      }
+    }).finally(() => {
+      if (state.controller === controller) {
+        state.controller = undefined;
+      }
+    });
+  }
+}
+
+export default ValidationScheduler;
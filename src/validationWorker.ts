@@ -0,0 +1,166 @@
+import 'cross-fetch/polyfill';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { parentPort } from 'worker_threads';
+import { convertRNGToPattern, Grammar } from 'salve-annos';
+import { CatalogEntries, CatalogResourceLoader, XMLCatalog } from './catalog';
+import { idProblems } from './ids';
+import { CompactSyntaxResourceLoader } from './rnc';
+import { patternFromStored, SimplifiedSchema, StoredNode, writeNode } from './simplifiedSchema';
+import { checkWellFormedness, compileSchematron, Problem, schematronProblems, SchematronSource,
+  SchematronValidator, validateWithGrammar, ValidationResult, ValidationSnapshot } from './validationEngine';
+import { ValidationCancelled } from './xmlEvents';
+
+// Schematron rules to check, by the key they were loaded with.
+export interface SchematronRef {
+  key: string;
+  url: string;
+  source: string;
+}
+
+/**
+ * Messages to the worker. Grammars and Schematron rules are loaded once under
+ * a key and then referred to by it. Requests with an id get one response with
+ * the same id.
+ */
+export type WorkerRequest =
+  | {type: 'loadGrammar', id: number, key: string, simplified: StoredNode}
+  // Compiles a schema and keeps its grammar, responding with the schema as plain data.
+  | {type: 'compileGrammar', id: number, key: string, url: string, catalog?: CatalogEntries[]}
+  | {type: 'loadSchematron', id: number, key: string, text: string, phase?: string}
+  | {type: 'unload', key: string}
+  // Checks well-formedness only when there is no schema, grammar is unset when it didn't load.
+  // Validations of a document resume from the previous one where possible.
+  | {type: 'validate', id: number, xmlSource: string, schema?: {grammar?: string, source: string}, document?: string}
+  // Drops what was kept from validating the document.
+  | {type: 'forget', document: string}
+  | {type: 'schematron', id: number, xmlSource: string, schematrons: SchematronRef[]}
+  // Checks xml:ids and pointers. Other documents are read from disk unless
+  // their unsaved text is given, by path. Duplicates of checkedIds were
+  // already reported by the grammar.
+  | {type: 'checkIds', id: number, xmlSource: string, url: string, attributes: string[],
+    unsaved: Record<string, string>, checkedIds: string[]}
+  // Stops the request with the given id.
+  | {type: 'cancel', id: number};
+
+export type WorkerResponse =
+  | {type: 'loaded', id: number, ok: boolean}
+  | {type: 'compiled', id: number, schema: SimplifiedSchema}
+  | {type: 'validated', id: number, result: ValidationResult}
+  | {type: 'checked', id: number, problems: Problem[]}
+  | {type: 'cancelled', id: number}
+  | {type: 'failed', id: number, message: string};
+
+const grammars = new Map<string, Grammar>();
+const schematrons = new Map<string, Promise<SchematronValidator | void>>();
+const running = new Map<number, AbortController>();
+// The last validation of each document against a grammar.
+const snapshots = new Map<string, ValidationSnapshot>();
+
+async function handle(request: WorkerRequest): Promise<WorkerResponse | void> {
+  switch (request.type) {
+    case 'loadGrammar':
+      try {
+        grammars.set(request.key, patternFromStored(request.simplified));
+        return {type: 'loaded', id: request.id, ok: true};
+      } catch(err) {
+        console.error("Could not build grammar", (err as Error).message);
+        return {type: 'loaded', id: request.id, ok: false};
+      }
+    case 'compileGrammar':
+      try {
+        // Compact syntax schemas are converted to the XML syntax as they are
+        // loaded, before the catalog maps the files they include.
+        const loader = new CompactSyntaxResourceLoader();
+        const converted = await convertRNGToPattern(new URL(request.url), {
+          // The manifest lists all files making up the schema, so they can be watched.
+          createManifest: true,
+          manifestHashAlgorithm: 'SHA-1',
+          resourceLoader: request.catalog
+            ? new CatalogResourceLoader(XMLCatalog.fromEntries(request.catalog), loader) : loader,
+          idCheck: true,
+        });
+        grammars.set(request.key, converted.pattern);
+        const {schemaText, manifest} = converted;
+        return {type: 'compiled', id: request.id, schema: {simplified: writeNode(converted.simplified), schemaText, manifest}};
+      } catch(err) {
+        return {type: 'failed', id: request.id, message: (err as Error).message};
+      }
+    case 'loadSchematron': {
+      const compiled = compileSchematron(request.text, request.phase).catch(err => {
+        console.error("Could not compile Schematron", (err as Error).message);
+      });
+      schematrons.set(request.key, compiled);
+      return {type: 'loaded', id: request.id, ok: !!await compiled};
+    }
+    case 'unload': {
+      const grammar = grammars.get(request.key);
+      snapshots.forEach((snapshot, document) => snapshot.tree === grammar && snapshots.delete(document));
+      grammars.delete(request.key);
+      schematrons.delete(request.key);
+      return;
+    }
+    case 'forget':
+      snapshots.delete(request.document);
+      return;
+    case 'cancel':
+      running.get(request.id)?.abort();
+      return;
+  }
+
+  const controller = new AbortController();
+  running.set(request.id, controller);
+  try {
+    if (request.type === 'validate') {
+      const {xmlSource, schema, document} = request;
+      if (!schema) {
+        return {type: 'validated', id: request.id, result: await checkWellFormedness(xmlSource, controller.signal)};
+      }
+      const grammar = schema.grammar ? grammars.get(schema.grammar) : undefined;
+      const previous = document ? snapshots.get(document) : undefined;
+      const {snapshot, resumedFrom, ...result} = await validateWithGrammar(grammar, xmlSource,
+        {source: schema.source, signal: controller.signal, previous});
+      if (document && snapshot) {
+        snapshots.set(document, snapshot);
+      }
+      if (resumedFrom) {
+        console.log("Resumed validation from offset", resumedFrom, document);
+      }
+      return {type: 'validated', id: request.id, result};
+    }
+    if (request.type === 'checkIds') {
+      const {unsaved} = request;
+      const readText = async (url: string) => {
+        const file = fileURLToPath(url);
+        return unsaved[file] ?? fs.readFile(file, 'utf8');
+      };
+      return {type: 'checked', id: request.id,
+        problems: await idProblems(request.xmlSource, request.url, request.attributes, readText, request.checkedIds)};
+    }
+    const sources: SchematronSource[] = [];
+    for (const {key, url, source} of request.schematrons) {
+      const schematron = await schematrons.get(key);
+      if (schematron) {
+        sources.push({schematron, url, source});
+      }
+    }
+    return {type: 'checked', id: request.id, problems: await schematronProblems(sources, request.xmlSource, controller.signal)};
+  } catch(err) {
+    if (err instanceof ValidationCancelled) {
+      return {type: 'cancelled', id: request.id};
+    }
+    return {type: 'failed', id: request.id, message: (err as Error).message};
+  } finally {
+    running.delete(request.id);
+  }
+}
+
+// Requests are handled concurrently, validations yield between chunks so
+// that cancellations get through.
+parentPort?.on('message', (request: WorkerRequest) => {
+  handle(request).then(response => {
+    if (response) {
+      parentPort?.postMessage(response);
+    }
+  });
+});
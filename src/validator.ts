@@ -0,0 +1,201 @@
+import 'cross-fetch/polyfill';
+import * as path from 'path';
+import * as url from 'url';
+import { convertRNGToPattern, Grammar } from 'salve-annos';
+import { CatalogResourceLoader, XMLCatalog } from './catalog';
+import { CompactSyntaxResourceLoader } from './rnc';
+import { checkWellFormedness, compileSchematron, ERR_SCHEMA, ERR_VALID, ERR_WELLFORM, NO_ERR, Problem, RNG_ROOT,
+  schematronProblems, SchematronSource, SchematronValidator, validateWithGrammar, ValidationResult } from './validationEngine';
+import { embedsSchematron, schemaModels, schemaName } from './xmlModels';
+
+export { ERR_SCHEMA, ERR_VALID, ERR_WELLFORM, NO_ERR, Problem, Severity } from './validationEngine';
+
+export interface ValidateOptions {
+  // RELAX NG schema to use instead of the one set with xml-model.
+  schemaUrl?: string;
+  // URL of the document, which relative schema locations are resolved
+  // against. Defaults to the working directory.
+  baseUri?: string;
+  // Schematron phase, unless the document sets one with xml-model.
+  schematronPhase?: string;
+  // Catalog mapping schema locations to local copies.
+  catalog?: XMLCatalog;
+}
+
+export interface DocumentValidation extends ValidationResult {
+  // URLs of the RELAX NG schema and the standalone Schematron files used.
+  schema?: string;
+  schematrons: string[];
+}
+
+interface CompiledSchema {
+  grammar: Grammar;
+  schemaText: string;
+}
+
+interface CompiledSchemas {
+  grammars: Map<string, Promise<CompiledSchema>>;
+  schematrons: Map<string, Promise<SchematronValidator>>;
+}
+
+// Schemas are compiled once per catalog for the life of the process, unless compiling fails.
+const compiledSchemas = new WeakMap<object, CompiledSchemas>();
+const NO_CATALOG = {};
+
+function schemasFor(catalog?: XMLCatalog): CompiledSchemas {
+  const key = catalog ?? NO_CATALOG;
+  let schemas = compiledSchemas.get(key);
+  if (!schemas) {
+    schemas = {grammars: new Map(), schematrons: new Map()};
+    compiledSchemas.set(key, schemas);
+  }
+  return schemas;
+}
+
+function resourceLoader(catalog?: XMLCatalog) {
+  // Compact syntax schemas are converted to the XML syntax as they are
+  // loaded, before the catalog maps the files they include.
+  const loader = new CompactSyntaxResourceLoader();
+  return catalog ? new CatalogResourceLoader(catalog, loader) : loader;
+}
+
+/** Resolves a schema location against the URL of a document, accepting local paths as well. */
+export function resolveSchemaUrl(href: string, baseUri: string, catalog?: XMLCatalog): string {
+  let resolved: string;
+  try {
+    resolved = new URL(href).toString();
+  } catch (error) {
+    resolved = path.isAbsolute(href) ? url.pathToFileURL(href).toString() : new URL(href, baseUri).toString();
+  }
+  return catalog?.resolve(resolved) ?? resolved;
+}
+
+// Compiles once per key. Failures aren't kept, so that a schema is compiled
+// again once it is fixed.
+function cached<T>(cache: Map<string, Promise<T>>, key: string, compile: () => Promise<T>): Promise<T> {
+  let compiled = cache.get(key);
+  if (!compiled) {
+    const promise = compile();
+    cache.set(key, promise);
+    promise.catch(() => cache.get(key) === promise && cache.delete(key));
+    compiled = promise;
+  }
+  return compiled;
+}
+
+function compileGrammar(schemaURL: string, catalog?: XMLCatalog): Promise<CompiledSchema> {
+  return cached(schemasFor(catalog).grammars, schemaURL, async () => {
+    const converted = await convertRNGToPattern(new URL(schemaURL), {
+      createManifest: false,
+      manifestHashAlgorithm: 'SHA-1',
+      resourceLoader: resourceLoader(catalog),
+      idCheck: true,
+    });
+    return {grammar: converted.pattern, schemaText: converted.schemaText};
+  });
+}
+
+function loadSchematron(schURL: string, phase: string | undefined, catalog?: XMLCatalog): Promise<SchematronValidator> {
+  return cached(schemasFor(catalog).schematrons, `${phase ?? ''} ${schURL}`, async () => {
+    // Compact syntax is converted by the loader.
+    const resource = await resourceLoader(catalog).load(new URL(schURL));
+    let text = await resource.getText();
+    if (RNG_ROOT.test(text)) {
+      // Use the compiled schema, so that rules from included files are found.
+      text = (await compileGrammar(schURL, catalog)).schemaText;
+    }
+    return compileSchematron(text, phase);
+  });
+}
+
+// A problem that stops the document from being checked, shown at its start.
+function schemaProblem(message: string, schemaURL: string): Problem {
+  return {
+    message,
+    severity: 'error',
+    range: {start: {line: 0, character: 0}, end: {line: 0, character: 0}},
+    source: schemaName(schemaURL),
+  };
+}
+
+function selectedPhase(phase?: string): string | undefined {
+  return phase && phase !== '#DEFAULT' ? phase : undefined;
+}
+
+/**
+ * Validates a document against the RELAX NG schema and the Schematron rules
+ * associated with it with xml-model, the same way the editor does but
+ * without VS Code. Documents without a schema are only checked for
+ * well-formedness, and Schematron rules only once they are well-formed.
+ */
+export async function validate(xmlText: string, options: ValidateOptions = {}): Promise<DocumentValidation> {
+  const {catalog} = options;
+  const baseUri = options.baseUri ?? url.pathToFileURL(process.cwd() + path.sep).toString();
+  const models = schemaModels(xmlText);
+  const href = options.schemaUrl ?? models.rng?.href;
+  const schema = href ? resolveSchemaUrl(href, baseUri, catalog) : undefined;
+
+  let result: ValidationResult;
+  let schemaText: string | undefined;
+  if (!schema) {
+    result = await checkWellFormedness(xmlText);
+  } else {
+    try {
+      const compiled = await compileGrammar(schema, catalog);
+      schemaText = compiled.schemaText;
+      result = await validateWithGrammar(compiled.grammar, xmlText, {source: schemaName(schema)});
+    } catch (err) {
+      result = {errorType: ERR_SCHEMA, errorCount: 1,
+        problems: [schemaProblem(`Could not compile schema ${schema}: ${(err as Error).message}`, schema)]};
+    }
+  }
+  const {errorType, problems} = result;
+  let {errorCount} = result;
+
+  // Schematron rules embedded in the RNG are checked with it, so only keep other files.
+  let schemaPhase: string | undefined;
+  const schematrons: {url: string, phase?: string}[] = [];
+  for (const model of models.schematrons) {
+    const schematron = resolveSchemaUrl(model.href, baseUri, catalog);
+    if (schematron === schema) {
+      schemaPhase = model.phase;
+    } else if (!schematrons.some(s => s.url === schematron)) {
+      schematrons.push({url: schematron, phase: model.phase});
+    }
+  }
+  if (errorType !== ERR_WELLFORM) {
+    const candidates = schematrons.slice();
+    if (schema && schemaText && embedsSchematron(schemaText)) {
+      candidates.unshift({url: schema, phase: schemaPhase});
+    }
+    for (const {url: schURL, phase} of candidates) {
+      let source: SchematronSource;
+      try {
+        const schematron = await loadSchematron(schURL, selectedPhase(phase || options.schematronPhase), catalog);
+        source = {schematron, url: schURL, source: schemaName(schURL)};
+      } catch (err) {
+        problems.push(schemaProblem(`Could not compile Schematron ${schURL}: ${(err as Error).message}`, schURL));
+        errorCount++;
+        continue;
+      }
+      try {
+        const schematronResults = await schematronProblems([source], xmlText);
+        problems.push(...schematronResults);
+        // Schematron warnings and information don't count as errors.
+        errorCount += schematronResults.filter(p => p.severity === 'error').length;
+      } catch (err) {
+        problems.push(schemaProblem(`Could not check Schematron ${schURL}: ${(err as Error).message}`, schURL));
+        errorCount++;
+      }
+    }
+  }
+
+  return {
+    schema,
+    schematrons: schematrons.map(s => s.url),
+    // Documents that only break Schematron rules aren't valid either.
+    errorType: errorType === NO_ERR && errorCount > 0 ? ERR_VALID : errorType,
+    errorCount,
+    problems,
+  };
+}
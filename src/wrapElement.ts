@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { DefaultNameResolver, Grammar, GrammarWalker, Name } from 'salve-annos';
+import { SaxesParser } from 'saxes';
+import { namespaceNamer, QualifiedName } from './completion';
+import { locateSchemaForText, XMLname } from './extension';
+import SchemaCache from './schemaCache';
+import { fireXMLEvents, Span } from './xmlEvents';
+
+// Attributes written after the element name, e.g. ` rend="italic"`.
+const attributesRe = /^(\s+[^\s=<>"']+\s*=\s*("[^"<]*"|'[^'<]*'))*\s*$/;
+
+// An element the schema allows at a point, with how it must be written there.
+export interface WrapChoice {
+  name: Name;
+  qualified: QualifiedName;
+}
+
+class ReplayDone {}
+
+function nameKey(name: Name): string {
+  return `{${name.ns}}${name.name}`;
+}
+
+// The elements the walker allows next, by expanded name.
+function allowedElements(walker: GrammarWalker<DefaultNameResolver>, nameResolver: DefaultNameResolver): Map<string, WrapChoice> {
+  const namer = namespaceNamer(nameResolver);
+  const choices = new Map<string, WrapChoice>();
+  for (const entry of walker.possible()) {
+    if (entry.name === 'enterStartTag') {
+      for (const name of entry.namePattern.toArray() ?? []) {
+        choices.set(nameKey(name), {name, qualified: namer.element(name.ns, name.name)});
+      }
+    }
+  }
+  return choices;
+}
+
+/**
+ * Validates the document up to each offset and lists the elements allowed
+ * there by expanded name, or undefined where the document can't be parsed up
+ * to the offset. The document is replayed once for all offsets.
+ */
+export function wrapChoices(tree: Grammar, xmlSource: string, offsets: number[]): (Map<string, WrapChoice> | undefined)[] {
+  const nameResolver = new DefaultNameResolver();
+  const walker = tree.newWalker(nameResolver);
+  const parser = new SaxesParser({ xmlns: true, position: true });
+  const choices: (Map<string, WrapChoice> | undefined)[] = offsets.map(() => undefined);
+  // Indexes of the offsets not reached yet, in document order.
+  const pending = offsets.map((_, i) => i).sort((a, b) => offsets[a] - offsets[b]);
+  let error: Error | undefined;
+  try {
+    fireXMLEvents(parser, xmlSource, nameResolver, {
+      fireEvent: (name: string, args: string[], span: Span) => {
+        while (pending.length > 0 && span[1] > offsets[pending[0]]) {
+          choices[pending.shift() as number] = allowedElements(walker, nameResolver);
+        }
+        if (pending.length === 0) {
+          throw new ReplayDone();
+        }
+        walker.fireEvent(name, args);
+      },
+    });
+  } catch(err) {
+    if (!(err instanceof ReplayDone)) {
+      error = err as Error;
+    }
+  }
+  // Errors after an offset, like unclosed elements, don't matter there.
+  for (const i of pending) {
+    if (error && parser.position < offsets[i]) {
+      console.log("Could not parse document for wrapping", error.message);
+      break;
+    }
+    choices[i] = allowedElements(walker, nameResolver);
+  }
+  return choices;
+}
+
+function isWrapper(text: string): boolean {
+  const [, name, attributes] = text.match(/^(\S+)(.*)$/s) ?? [];
+  const parts = name?.split(':') ?? [];
+  return parts.length <= 2 && parts.every(part => XMLname.test(part)) && attributesRe.test(attributes ?? '');
+}
+
+// Asks for the element to wrap with, picked from the choices or written with attributes.
+function pickWrapper(choices: WrapChoice[]): Promise<string | undefined> {
+  return new Promise(resolve => {
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.placeholder = 'Wrap selection with element: pick or write element, e.g. hi rend="italic"';
+    quickPick.items = choices
+      .map(({name, qualified}) => ({
+        label: qualified.qname,
+        description: name.ns,
+        detail: name.documentation?.replace(/\s+/g, ' ').trim(),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    quickPick.onDidAccept(() => {
+      const written = quickPick.value.trim();
+      const picked = quickPick.selectedItems[0]?.label;
+      // Attributes filter out every item, so what was written wins when it has them.
+      const wrapper = written.includes(' ') || !picked ? written : picked;
+      if (!isWrapper(wrapper)) {
+        vscode.window.showErrorMessage(`Must be an XML Name, optionally followed by attributes: ${wrapper}`);
+        return;
+      }
+      resolve(wrapper);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      resolve(undefined);
+      quickPick.dispose();
+    });
+    quickPick.show();
+  });
+}
+
+/**
+ * Wraps every selection with an element the schema allows at all of them,
+ * written with the namespace prefix in scope at each selection.
+ */
+export async function wrapWithElement(textEditor: vscode.TextEditor, cache: SchemaCache): Promise<void> {
+  const document = textEditor.document;
+  const xmlSource = document.getText();
+  const selections = textEditor.selections;
+  const schemaInfo = locateSchemaForText(xmlSource, document.uri);
+  // Don't compile schemas before validation.
+  const tree: Grammar | void = schemaInfo && schemaInfo.schema && cache.has(schemaInfo.schema)
+    ? (await cache.get(schemaInfo.schema))?.grammar
+    : undefined;
+  const choices = tree ? wrapChoices(tree, xmlSource, selections.map(selection => document.offsetAt(selection.start))) : [];
+  const allowed = Array.from(choices[0]?.values() ?? [])
+    .filter(choice => choices.every(c => c?.has(nameKey(choice.name))));
+
+  const wrapper = await pickWrapper(allowed);
+  if (!wrapper) {
+    return;
+  }
+  const [, written, rest] = wrapper.match(/^(\S+)(.*)$/s) as RegExpMatchArray;
+  const attributes = rest.trim() ? ` ${rest.trim()}` : '';
+  const choice = allowed.find(c => c.qualified.qname === written);
+  await textEditor.edit(editBuilder => {
+    selections.forEach((selection, i) => {
+      // Prefixes can differ between selections.
+      const {qname, xmlns} = (choice && choices[i]?.get(nameKey(choice.name))?.qualified) ?? {qname: written, xmlns: ''};
+      editBuilder.replace(selection, `<${qname}${xmlns}${attributes}>${document.getText(selection)}</${qname}>`);
+    });
+  });
+}
@@ -0,0 +1,282 @@
+import { SaxesParser, SaxesTag, SaxesAttributeNS } from 'saxes';
+import { DefaultNameResolver } from 'salve-annos';
+import { attributeSpans } from './sourceSpans';
+
+// Characters given to the parser at a time when parsing in chunks.
+const CHUNK_SIZE = 64 * 1024;
+
+/** Thrown by work that stops because a newer validation of the document started. */
+export class ValidationCancelled extends Error {
+  constructor() {
+    super("Validation cancelled");
+  }
+}
+
+// Start and end offsets in the source.
+export type Span = [number, number];
+
+export interface StartTag {
+  uri: string;
+  local: string;
+  // Qualified name, as written.
+  name: string;
+  // Namespace declarations on the tag, as prefix and URI.
+  namespaces: [string, string][];
+  // Offsets of the start tag.
+  start: number;
+  end: number;
+}
+
+export interface XMLEventHandler {
+  /** Receives each salve event with the source offsets of the token it is about. */
+  fireEvent(name: string, args: string[], span: Span): void;
+  /**
+   * Called when the document ends, with the start tag of the innermost
+   * unclosed element, or else the root element.
+   */
+  end?(tag: StartTag | undefined): void;
+  /**
+   * Called after end tags inside the root element, with the offset after the
+   * tag and a function giving the state to resume parsing from there.
+   */
+  checkpoint?(offset: number, state: () => ParseState): void;
+}
+
+/** What is needed to resume parsing after an end tag, with offsets in the source. */
+export interface ParseState {
+  offset: number;
+  // Elements still open, outermost first.
+  tagStack: StartTag[];
+  rootTag?: StartTag;
+  // Entities declared in the DOCTYPE.
+  entities: Record<string, string>;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// The start tags of the open elements, given to a new parser so that it knows
+// their names and namespaces when resuming.
+function resumePrefix(state: ParseState): string {
+  return state.tagStack.map(tag => {
+    const namespaces = tag.namespaces.map(([prefix, uri]) =>
+      ` ${prefix ? `xmlns:${prefix}` : 'xmlns'}="${escapeAttribute(uri)}"`);
+    return `<${tag.name}${namespaces.join('')}>`;
+  }).join('');
+}
+
+/** Offset in the source that the parser got to, also when it resumed parsing. */
+export function sourceOffset(parser: SaxesParser<{xmlns: true, position: true}>, resume?: ParseState): number {
+  return resume ? parser.position - resumePrefix(resume).length + resume.offset : parser.position;
+}
+
+/**
+ * Feeds the source to the parser a chunk at a time, letting other work run in
+ * between, and stops with ValidationCancelled once the signal is aborted.
+ */
+export async function writeInChunks(parser: SaxesParser<{xmlns: true, position: true}>, xmlSource: string,
+  signal?: AbortSignal): Promise<void> {
+  for (let start = 0; start < xmlSource.length; start += CHUNK_SIZE) {
+    if (signal?.aborted) {
+      throw new ValidationCancelled();
+    }
+    parser.write(xmlSource.slice(start, start + CHUNK_SIZE));
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  if (signal?.aborted) {
+    throw new ValidationCancelled();
+  }
+  parser.close();
+}
+
+/**
+ * Turns the document into salve events, adapted from
+ * https://github.com/mangalam-research/salve/blob/0fd149e44bc422952d3b095bfa2cdd8bf76dd15c/lib/salve/parse.ts
+ * Mozilla Public License 2.0
+ *
+ * The parser is given by the caller so that it can report where
+ * well-formedness errors (which are thrown) happen.
+ */
+export function fireXMLEvents(parser: SaxesParser<{xmlns: true, position: true}>, xmlSource: string,
+  nameResolver: DefaultNameResolver, handler: XMLEventHandler): void {
+  listenXMLEvents(parser, xmlSource, nameResolver, handler);
+  parser.write(xmlSource).close();
+}
+
+/**
+ * Like fireXMLEvents, but parses in chunks so that long documents don't block
+ * other work, and stops with ValidationCancelled once the signal is aborted.
+ *
+ * When resuming from a state given to a checkpoint, only the source after it
+ * is parsed. The name resolver must then be in the same state as well.
+ */
+export async function fireXMLEventsInChunks(parser: SaxesParser<{xmlns: true, position: true}>, xmlSource: string,
+  nameResolver: DefaultNameResolver, handler: XMLEventHandler, signal?: AbortSignal, resume?: ParseState): Promise<void> {
+  if (resume) {
+    Object.assign(parser.ENTITIES, resume.entities);
+    // Before listening, so that the open elements aren't reported again.
+    parser.write(resumePrefix(resume));
+  }
+  listenXMLEvents(parser, xmlSource, nameResolver, handler, resume);
+  await writeInChunks(parser, resume ? xmlSource.slice(resume.offset) : xmlSource, signal);
+}
+
+function listenXMLEvents(parser: SaxesParser<{xmlns: true, position: true}>, xmlSource: string,
+  nameResolver: DefaultNameResolver, handler: XMLEventHandler, resume?: ParseState): void {
+  const tagStack: StartTag[] = resume ? resume.tagStack.slice() : [];
+  let rootTag: StartTag | undefined = resume?.rootTag;
+  let textBuf = "";
+  // Where the text in textBuf starts, and where the last tag, comment or
+  // processing instruction ended.
+  let textStart = resume?.offset ?? 0;
+  let markupEnd = resume?.offset ?? 0;
+  let tagStart = 0;
+  // The parser is behind or ahead of the source when resuming.
+  const base = resume ? resume.offset - resumePrefix(resume).length : 0;
+  const position = () => parser.position + base;
+
+  function flushTextBuf(end: number): void {
+    if (textBuf !== "") {
+      // Point at the text itself rather than the whitespace around it.
+      const raw = xmlSource.slice(textStart, end);
+      const leading = raw.length - raw.trimStart().length;
+      const trimmed = raw.trim().length;
+      handler.fireEvent("text", [textBuf], trimmed
+        ? [textStart + leading, textStart + leading + trimmed]
+        : [textStart, end]);
+      textBuf = "";
+    }
+  }
+
+  parser.on('opentagstart', () => {
+    tagStart = xmlSource.lastIndexOf('<', position() - 1);
+  });
+
+  parser.on('opentag', (node: SaxesTag) => {
+    flushTextBuf(tagStart);
+    const tagEnd = position();
+    const spans = attributeSpans(xmlSource, tagStart, tagEnd, node.name);
+    const nameSpan: Span = [tagStart + 1, tagStart + 1 + node.name.length];
+    const names = Object.keys(node.attributes);
+    const nsDefinitions: [string, string][] = [];
+    const attributeEvents: [string, string[], Span][] = [];
+    names.sort();
+    for (const name of names) {
+      const attr = node.attributes[name] as SaxesAttributeNS;
+      if (name === "xmlns") { // xmlns="..."
+        nsDefinitions.push(["", attr.value]);
+      }
+      else if (attr.prefix === "xmlns") { // xmlns:...=...
+        nsDefinitions.push([attr.local, attr.value]);
+      }
+      else {
+        const span = spans.get(name);
+        attributeEvents.push(
+          ["attributeName", [attr.uri, attr.local], span ? [span.start, span.nameEnd] : nameSpan],
+          ["attributeValue", [attr.value], span ? [span.valueStart, span.valueEnd] : nameSpan]);
+      }
+    }
+    if (nsDefinitions.length !== 0) {
+      nameResolver.enterContext();
+      for (const definition of nsDefinitions) {
+        nameResolver.definePrefix(definition[0], definition[1]);
+      }
+    }
+    handler.fireEvent("enterStartTag", [node.uri as string, node.local as string], nameSpan);
+    for (const [event, args, span] of attributeEvents) {
+      handler.fireEvent(event, args, span);
+    }
+    // Errors when leaving the start tag are about missing attributes, so point at the tag end.
+    const closing = node.isSelfClosing ? 2 : 1;
+    handler.fireEvent("leaveStartTag", [], [tagEnd - closing, tagEnd]);
+    tagStack.push({
+      uri: node.uri || '',
+      local: node.local || '',
+      name: node.name,
+      namespaces: nsDefinitions,
+      start: tagStart,
+      end: tagEnd,
+    });
+    if (!rootTag) {
+      rootTag = tagStack[0];
+    }
+    markupEnd = tagEnd;
+  });
+
+  parser.on('text', (text: string) => {
+    if (textBuf === "") {
+      textStart = markupEnd;
+    }
+    textBuf += text;
+  });
+
+  // Text after comments and processing instructions starts after them.
+  parser.on('comment', () => {
+    const commentStart = xmlSource.lastIndexOf('<!--', position() - 1);
+    markupEnd = xmlSource.indexOf('-->', commentStart + 4) + 3;
+  });
+
+  parser.on('processinginstruction', () => {
+    markupEnd = position();
+  });
+
+  parser.on('closetag', () => {
+    const tagInfo = tagStack.pop();
+    if (tagInfo === undefined) {
+      throw new Error("stack underflow");
+    }
+    const end = position();
+    // Self-closing tags have no end tag.
+    const start = end === tagInfo.end ? tagInfo.start : xmlSource.lastIndexOf('</', end - 1);
+    flushTextBuf(start);
+    handler.fireEvent("endTag", [tagInfo.uri, tagInfo.local], [start, end]);
+    markupEnd = end;
+    if (tagInfo.namespaces.length !== 0) {
+      nameResolver.leaveContext();
+    }
+    if (tagStack.length > 0) {
+      handler.checkpoint?.(end, () => ({
+        offset: end,
+        tagStack: tagStack.slice(),
+        rootTag,
+        entities: {...parser.ENTITIES},
+      }));
+    }
+  });
+
+  const entityRe = /^<!ENTITY\s+([^\s]+)\s+(['"])(.*?)\2\s*>\s*/;
+
+  parser.on('doctype', (doctype: string) => {
+    // This is an extremely primitive way to handle ENTITY declarations in a
+    // DOCTYPE. It is unlikely to support any kind of complicated construct.
+    // If a reminder need be given then: THIS PARSER IS NOT MEANT TO BE A
+    // GENERAL SOLUTION TO PARSING XML FILES!!! It supports just enough to
+    // perform some testing.
+    let cleaned = doctype
+      .replace(/^.*?\[/, "")
+      .replace(/].*?$/, "")
+      .replace(/<!--(?:.|\n|\r)*?-->/g, "")
+      .trim();
+
+    while (cleaned.length !== 0) {
+      const match = entityRe.exec(cleaned);
+      if (match !== null) {
+        const name = match[1];
+        const value = match[3];
+        cleaned = cleaned.slice(match[0].length);
+        if (parser.ENTITIES[name] !== undefined) {
+          throw new Error(`redefining entity: ${name}`);
+        }
+        parser.ENTITIES[name] = value;
+      }
+      else {
+        throw new Error(`unexpected construct in DOCTYPE: ${doctype}`);
+      }
+    }
+  });
+
+  parser.on('end', () => {
+    handler.end?.(tagStack.length > 0 ? tagStack[tagStack.length - 1] : rootTag);
+  });
+}
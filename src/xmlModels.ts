@@ -0,0 +1,60 @@
+export const RNG_NS = 'http://relaxng.org/ns/structure/1.0';
+export const RNC_TYPE = 'application/relax-ng-compact-syntax';
+export const SCHEMATRON_NS = ['http://purl.oclc.org/dsdl/schematron', 'http://www.ascc.net/xml/schematron'];
+
+export interface XMLModel {
+  href: string;
+  schematypens?: string;
+  type?: string;
+  phase?: string;
+}
+
+/** Reads the pseudo-attributes of the xml-model processing instructions in a document. */
+export function xmlModels(fileText: string): XMLModel[] {
+  const models: XMLModel[] = [];
+  for (const pi of fileText.matchAll(/<\?xml-model\s(.*?)\?>/gs)) {
+    const attributes: {[key: string]: string} = {};
+    for (const att of pi[1].matchAll(/([\w:-]+)\s*=\s*(["'])(.*?)\2/gs)) {
+      attributes[att[1]] = att[3];
+    }
+    if (attributes.href) {
+      models.push({
+        href: attributes.href,
+        schematypens: attributes.schematypens,
+        type: attributes.type,
+        phase: attributes.phase,
+      });
+    }
+  }
+  return models;
+}
+
+/** Picks the RELAX NG schema (XML or compact syntax) and the Schematron models of a document. */
+export function schemaModels(fileText: string): {rng?: XMLModel, schematrons: XMLModel[]} {
+  const models = xmlModels(fileText);
+  return {
+    rng: models.find(m => m.schematypens === RNG_NS || m.type === RNC_TYPE),
+    schematrons: models.filter(m => m.schematypens && SCHEMATRON_NS.includes(m.schematypens)),
+  };
+}
+
+/**
+ * Whether a RELAX NG schema embeds Schematron patterns. Compiling the rules
+ * of a schema that only declares the namespace would fail.
+ */
+export function embedsSchematron(schemaText: string): boolean {
+  for (const ns of SCHEMATRON_NS) {
+    const quoted = ns.replace(/[.]/g, '\\$&');
+    for (const decl of schemaText.matchAll(new RegExp(`xmlns(?::([\\w.-]+))?\\s*=\\s*(["'])${quoted}\\2`, 'g'))) {
+      if (new RegExp(`<${decl[1] ? `${decl[1]}:` : ''}pattern\\b`).test(schemaText)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+// Name of a schema for the source of its problems.
+export function schemaName(schemaURL: string): string {
+  return decodeURIComponent(schemaURL.split(/[?#]/)[0].split('/').pop() || schemaURL);
+}
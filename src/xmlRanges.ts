@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import { SaxesParser, SaxesTag } from 'saxes';
+import { attributeSpans } from './sourceSpans';
+
+type MarkupKind = 'element' | 'comment' | 'cdata' | 'processing-instruction';
+
+// Markup with its offsets in the source. Text is what lies between markup.
+interface MarkupNode {
+  kind: MarkupKind;
+  // Qualified name of elements.
+  name?: string;
+  start: number;
+  end: number;
+  // End of the start tag and start of the end tag of elements, the same as
+  // end for self-closing or unclosed elements.
+  tagEnd: number;
+  endTagStart: number;
+  children: MarkupNode[];
+}
+
+function markup(kind: MarkupKind, start: number, end: number): MarkupNode {
+  return {kind, start, end, tagEnd: end, endTagStart: end, children: []};
+}
+
+/**
+ * Parses the elements, comments, CDATA sections and processing instructions
+ * of the document. Documents that are not well-formed are parsed as far as
+ * possible, elements left open end with the document.
+ */
+export function markupTree(xmlSource: string): MarkupNode[] {
+  const parser = new SaxesParser({ position: true });
+  const roots: MarkupNode[] = [];
+  const stack: MarkupNode[] = [];
+  let tagStart = 0;
+
+  const add = (node: MarkupNode) => (stack.length ? stack[stack.length - 1].children : roots).push(node);
+
+  // Keep parsing past well-formedness errors, validation reports them.
+  parser.on('error', () => undefined);
+
+  parser.on('opentagstart', () => {
+    tagStart = xmlSource.lastIndexOf('<', parser.position - 1);
+  });
+
+  parser.on('opentag', (tag: SaxesTag) => {
+    const element = markup('element', tagStart, parser.position);
+    element.name = tag.name;
+    add(element);
+    stack.push(element);
+  });
+
+  parser.on('closetag', () => {
+    const element = stack.pop();
+    if (element) {
+      element.end = parser.position;
+      // Self-closing tags have no end tag.
+      element.endTagStart = element.end === element.tagEnd ? element.end : xmlSource.lastIndexOf('</', element.end - 1);
+    }
+  });
+
+  // Events for these come before the end of their markup.
+  const addMarkup = (kind: MarkupKind, open: string, close: string) => {
+    const start = xmlSource.lastIndexOf(open, parser.position - 1);
+    const end = xmlSource.indexOf(close, start + open.length);
+    add(markup(kind, start, end === -1 ? xmlSource.length : end + close.length));
+  };
+
+  parser.on('comment', () => addMarkup('comment', '<!--', '-->'));
+  parser.on('cdata', () => addMarkup('cdata', '<![CDATA[', ']]>'));
+  parser.on('processinginstruction', () => addMarkup('processing-instruction', '<?', '?>'));
+
+  parser.write(xmlSource).close();
+  for (const element of stack) {
+    element.end = xmlSource.length;
+    element.endTagStart = xmlSource.length;
+  }
+  return roots;
+}
+
+/**
+ * Folds elements from their start tag to the line before their end tag, and
+ * multi-line start tags, comments, CDATA sections and processing
+ * instructions as a whole.
+ */
+export function foldingRanges(nodes: MarkupNode[], lineAt: (offset: number) => number): vscode.FoldingRange[] {
+  const ranges: vscode.FoldingRange[] = [];
+  const visit = (node: MarkupNode) => {
+    const startLine = lineAt(node.start);
+    const endLine = lineAt(node.end);
+    // Unclosed elements fold to the end of the document.
+    const contentEndLine = node.endTagStart < node.end ? lineAt(node.endTagStart) - 1 : endLine;
+    if (node.kind === 'element' && node.tagEnd < node.end && contentEndLine > startLine) {
+      ranges.push(new vscode.FoldingRange(startLine, contentEndLine));
+    } else if (node.kind === 'element' && lineAt(node.tagEnd) > startLine) {
+      ranges.push(new vscode.FoldingRange(startLine, lineAt(node.tagEnd)));
+    } else if (node.kind !== 'element' && endLine > startLine) {
+      ranges.push(new vscode.FoldingRange(startLine, endLine,
+        node.kind === 'comment' ? vscode.FoldingRangeKind.Comment : undefined));
+    }
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return ranges;
+}
+
+/**
+ * Lists the spans around an offset, from the innermost out: the text, value,
+ * attribute, tag, comment or the like, then the content and whole of each
+ * element it is in.
+ */
+export function selectionSpans(xmlSource: string, nodes: MarkupNode[], offset: number): [number, number][] {
+  const spans: [number, number][] = [];
+  const push = (start: number, end: number) => {
+    const last = spans[spans.length - 1];
+    if (start < end && (!last || (start <= last[0] && last[1] <= end && (start < last[0] || last[1] < end)))) {
+      spans.push([start, end]);
+    }
+  };
+  const path: MarkupNode[] = [];
+  let children = nodes;
+  let node: MarkupNode | undefined;
+  while ((node = children.find(n => n.start <= offset && offset < n.end))) {
+    path.push(node);
+    children = node.children;
+  }
+
+  const inner = path[path.length - 1];
+  if (inner?.kind === 'element' && offset < inner.tagEnd) {
+    for (const span of attributeSpans(xmlSource, inner.start, inner.tagEnd, inner.name as string).values()) {
+      if (span.start <= offset && offset < span.end) {
+        push(span.valueStart, span.valueEnd);
+        push(span.start, span.end);
+      }
+    }
+    push(inner.start, inner.tagEnd);
+  } else if (inner?.kind === 'element' && offset >= inner.endTagStart) {
+    push(inner.endTagStart, inner.end);
+  } else if (inner && inner.kind !== 'element') {
+    path.pop();
+    push(inner.start, inner.end);
+  } else {
+    // Text between the markup around the offset, without surrounding whitespace.
+    const siblings = inner ? inner.children : nodes;
+    const before = siblings.filter(n => n.end <= offset).pop();
+    const after = siblings.find(n => n.start > offset);
+    const start = before ? before.end : inner ? inner.tagEnd : 0;
+    const end = after ? after.start : inner ? inner.endTagStart : xmlSource.length;
+    const text = xmlSource.slice(start, end);
+    const leading = text.length - text.trimStart().length;
+    push(start + leading, start + leading + text.trim().length);
+  }
+
+  for (const element of path.reverse()) {
+    push(element.tagEnd, element.endTagStart);
+    push(element.start, element.end);
+  }
+  return spans;
+}
+
+/**
+ * Folds elements and other multi-line markup, and expands the selection from
+ * text to the content of its element, the whole element and its parents.
+ */
+class XMLRangeProvider implements vscode.FoldingRangeProvider, vscode.SelectionRangeProvider {
+  public provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    return foldingRanges(markupTree(document.getText()), offset => document.positionAt(offset).line);
+  }
+
+  public provideSelectionRanges(document: vscode.TextDocument, positions: vscode.Position[]): vscode.SelectionRange[] {
+    const xmlSource = document.getText();
+    const nodes = markupTree(xmlSource);
+    return positions.map(position => {
+      const offset = document.offsetAt(position);
+      let selection: vscode.SelectionRange | undefined;
+      const word = document.getWordRangeAtPosition(position);
+      const spans = selectionSpans(xmlSource, nodes, offset);
+      const wordSpan: [number, number] | undefined = word && [document.offsetAt(word.start), document.offsetAt(word.end)];
+      // Words first, when they are inside the innermost span.
+      if (wordSpan && (!spans.length || (wordSpan[0] >= spans[0][0] && wordSpan[1] <= spans[0][1]
+        && wordSpan[1] - wordSpan[0] < spans[0][1] - spans[0][0]))) {
+        spans.unshift(wordSpan);
+      }
+      for (const [start, end] of spans.reverse()) {
+        selection = new vscode.SelectionRange(new vscode.Range(document.positionAt(start), document.positionAt(end)), selection);
+      }
+      return selection ?? new vscode.SelectionRange(new vscode.Range(position, position));
+    });
+  }
+}
+
+export default XMLRangeProvider;
@@ -3,19 +3,31 @@
 'use strict';
 
 const path = require('path');
+const webpack = require('webpack');
 
 /**@type {import('webpack').Configuration}*/
 const config = {
   target: 'node',
 
-  entry: './src/extension.ts',
+  // Validation runs in a worker thread, loaded from its own bundle next to the extension.
+  // The sxml-validate command line tool and the validation library are bundled
+  // as well, so that they run without node_modules.
+  entry: {
+    extension: './src/extension.ts',
+    validationWorker: './src/validationWorker.ts',
+    cli: './src/cli.ts',
+    validator: './src/validator.ts'
+  },
   output: {
     path: path.resolve(__dirname, 'dist'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2',
     devtoolModuleFilenameTemplate: '../[resource-path]'
   },
   devtool: 'source-map',
+  plugins: [
+    new webpack.BannerPlugin({banner: '#!/usr/bin/env node', raw: true, entryOnly: true, include: 'cli'})
+  ],
   externals: {
     vscode: 'commonjs vscode',
     salve: 'salve'
@@ -24,6 +36,11 @@ const config = {
     extensions: ['.ts', '.js']
   },
   module: {
+    // node-xsl-schematron builds a temporary directory URL from import.meta.url,
+    // which isn't an asset to bundle.
+    parser: {
+      javascript: {url: false}
+    },
     rules: [
       {
         test: /\.ts$/,